@@ -1,2 +1,5 @@
 // Make activeDocument refer to document in test environment
 globalThis.activeDocument = document;
+
+// Add the DOM helpers of Obsidian, also for components which only import types
+require("obsidian");
@@ -1,5 +1,17 @@
 export class Editor {}
 export class MarkdownView {}
+export class FileView {}
+export class WorkspaceLeaf {}
+export class Modal {
+    constructor(public app: any) {}
+    setPlaceholder(_placeholder: string) {}
+    open() {}
+}
+export class SuggestModal extends Modal {}
+export class FuzzySuggestModal extends SuggestModal {}
+export class Notice {
+    constructor(public message: string) {}
+}
 export class Platform {
     static isMobile = false;
     static isDesktop = true;
@@ -8,6 +20,10 @@ export class Platform {
     static isIosApp = false;
 }
 
+export function normalizePath(path: string) {
+    return path;
+}
+
 export function debounce(func: any, wait?: number, immediate?: boolean) {
     return func;
 }
@@ -24,3 +40,8 @@ export function debounce(func: any, wait?: number, immediate?: boolean) {
 (HTMLElement.prototype as any).hasClass = function (cls: string) {
     return this.classList.contains(cls);
 };
+(HTMLElement.prototype as any).setCssProps = function (props: Record<string, string>) {
+    for (const [key, value] of Object.entries(props)) {
+        this.style.setProperty(key, value);
+    }
+};
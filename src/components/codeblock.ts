@@ -1,8 +1,50 @@
 import { Editor, MarkdownView, WorkspaceLeaf, debounce } from "obsidian";
-import { Line } from "@codemirror/state";
+import { EditorState, Extension, Line, MapMode, StateEffect, StateField } from "@codemirror/state";
+import { EditorView, ViewPlugin, ViewUpdate } from "@codemirror/view";
 
+import { codeBlocksField, getCodeBlocksInLines } from "@core/codeblocks";
 import type { default as ScrollingPlugin } from "@core/main";
-import { getVimCursor } from "@core/util";
+import { EXTRA_LINE_LENGTH, clamp, getVimCursor, normalizeWheelDelta } from "@core/util";
+
+/**
+ * Sets the horizontal scroll positions of code blocks.
+ * A scroll position of zero removes the entry.
+ */
+const setCodeBlockOffsets = StateEffect.define<Record<number, number>>();
+
+/**
+ * Horizontal scroll positions of code blocks in the editor state.
+ * Keyed by the document position of the opening fence, which is mapped through changes.
+ */
+const codeBlockOffsetsField = StateField.define<Map<number, number>>({
+    create: () => new Map(),
+    update(offsets, tr) {
+        if (tr.docChanged) {
+            const mapped = new Map<number, number>();
+            offsets.forEach((scrollLeft, pos) => {
+                // Drop blocks, whose opening fence was deleted.
+                const newPos = tr.changes.mapPos(pos, 1, MapMode.TrackAfter);
+                if (newPos !== null) mapped.set(newPos, scrollLeft);
+            });
+            offsets = mapped;
+        }
+
+        for (const effect of tr.effects) {
+            if (!effect.is(setCodeBlockOffsets)) continue;
+
+            offsets = new Map(offsets);
+            for (const [pos, scrollLeft] of Object.entries(effect.value)) {
+                if (scrollLeft) {
+                    offsets.set(Number(pos), scrollLeft);
+                } else {
+                    offsets.delete(Number(pos));
+                }
+            }
+        }
+
+        return offsets;
+    },
+});
 
 export class CodeBlock {
     private readonly plugin: ScrollingPlugin;
@@ -33,20 +75,45 @@ export class CodeBlock {
     private cachedBlockWidthTimeStamp = 0;
     private cachedLineWidth = 0;
     private cachedLineCharCount = 0;
+    // Width of the line number in front of the code, which stays pinned while scrolling.
+    private cachedGutterWidth = 0;
     private CACHED_BLOCK_WIDTH_TIMEOUT = 250;
 
     private lastHorizontalScrollTimeStamp = 0;
     private readonly CODE_BLOCK_WIDTH_TIMEOUT = 200;
 
+    private readonly SCROLL_FACTOR = 0.4;
+
+    // Code block of reading mode scrolled by the wheel.
+    // Kept apart from the code block of the editor, as its position is not stored.
+    private previewCode: Element | null = null;
+    private previewScrollLeft = 0;
+    private previewScrollVelocity = 0;
+    private previewScrollWidth = 0;
+    private previewScrollTimeStamp = 0;
+    private previewAnimationFrame = 0;
+
+    private touchSamples: { deltaX: number; time: number }[] = [];
+    private touchEditor: Editor | null = null;
+    private touchOverscroll = 0;
+    // True if the current gesture was passed on to Obsidian at the edge of a code block.
+    private isTouchReleased = false;
+
+    /** Distance in pixels the finger may move beyond the edge, before Obsidian receives the gesture. */
+    private readonly EDGE_RESISTANCE = 40;
+    /** Only touch samples of the last milliseconds before release determine the fling velocity. */
+    private readonly FLING_SAMPLE_WINDOW = 100;
+    private readonly FRAME_DURATION = 1000 / 60;
+
     /**
-     * Large constant used to artificially extend line length so that
-     * each code line does not limit horizontal scrolling individually.
-     * This allows the plugin to handle the scroll boundary uniformly across
-     * all code lines in a block instead of relying on their individual widths.
+     * Registered once; modified in place and applied with Workspace.updateOptions.
      */
-    private readonly EXTRA_LINE_LENGTH = 1_000_000;
+    private readonly editorExtensions: Extension[] = [];
 
-    private readonly SCROLL_FACTOR = 0.4;
+    private readonly storeOffsetDebouncer: (line: Element, scrollLeft: number) => void;
+
+    // True while the scroll position of the current code block is not stored yet.
+    private isOffsetStorePending = false;
 
     constructor(plugin: ScrollingPlugin) {
         this.plugin = plugin;
@@ -57,9 +124,13 @@ export class CodeBlock {
             false,
         );
 
+        this.storeOffsetDebouncer = debounce(this.storeOffset.bind(this), 100, true);
+
+        plugin.registerEditorExtension(this.editorExtensions);
+
         activeDocument.body.style.setProperty(
             "--scrolling-extra-line-length",
-            `${this.EXTRA_LINE_LENGTH}px`,
+            `${EXTRA_LINE_LENGTH}px`,
         );
 
         this.updateStyle();
@@ -72,6 +143,8 @@ export class CodeBlock {
         plugin.events.onScroll(this.scrollHandler.bind(this));
         plugin.events.onScrollEnd(this.scrollEndHandler.bind(this));
         plugin.events.onTouchMove(this.touchMoveHandler.bind(this));
+        plugin.events.onTouchStart(this.touchStartHandler.bind(this));
+        plugin.events.onTouchEnd(this.touchEndHandler.bind(this));
         plugin.events.onLeafChange(this.leafChangeHandler.bind(this));
         plugin.events.onWheelCancelling(this.wheelHandler.bind(this), 9);
         plugin.events.onCursorUpdate(this.cursorUpdateHandler.bind(this));
@@ -87,6 +160,151 @@ export class CodeBlock {
         } else {
             activeDocument.body.removeClass("scrolling-horizontal-code-blocks");
         }
+
+        this.editorExtensions.length = 0;
+        if (this.plugin.settings.codeBlockScrollEnabled) {
+            this.editorExtensions.push(
+                codeBlocksField,
+                codeBlockOffsetsField,
+                this.createExtension(),
+            );
+        }
+        this.plugin.app.workspace.updateOptions();
+    }
+
+    /**
+     * Returns the scroll positions of code blocks in the editor by position of the opening fence.
+     * Used to persist them together with the scroll position of the file.
+     */
+    public getOffsets(state: EditorState): Record<number, number> | undefined {
+        const offsets = state.field(codeBlockOffsetsField, false);
+        if (!offsets?.size) return;
+
+        return Object.fromEntries(offsets);
+    }
+
+    /**
+     * Sets the scroll positions of code blocks in the editor by position of the opening fence.
+     * Rendered code lines are updated on the next measure.
+     */
+    public setOffsets(editor: Editor, offsets: Record<number, number>): void {
+        if (!editor.cm.state.field(codeBlockOffsetsField, false)) return;
+
+        editor.cm.dispatch({ effects: setCodeBlockOffsets.of(offsets) });
+    }
+
+    /**
+     * Returns an editor extension, which applies the stored scroll positions to code lines.
+     * CodeMirror recreates lines, when they are scrolled into view again.
+     */
+    private createExtension(): Extension {
+        const restoreOffsets = (view: EditorView) => this.restoreOffsets(view);
+
+        return ViewPlugin.fromClass(
+            class {
+                constructor(view: EditorView) {
+                    restoreOffsets(view);
+                }
+
+                update(update: ViewUpdate) {
+                    const offsets = update.state.field(codeBlockOffsetsField, false);
+                    if (offsets !== update.startState.field(codeBlockOffsetsField, false)) {
+                        restoreOffsets(update.view);
+                        return;
+                    }
+
+                    // Lines are only recreated, when they are scrolled into view or edited.
+                    if (offsets?.size && (update.viewportChanged || update.docChanged)) {
+                        restoreOffsets(update.view);
+                    }
+                }
+            },
+        );
+    }
+
+    /**
+     * Applies the stored scroll positions to all rendered code blocks of the editor.
+     */
+    private restoreOffsets(view: EditorView): void {
+        view.requestMeasure({
+            key: "code-block-offsets",
+            read: (view) => this.collectOffsets(view),
+            write: (blocks) => {
+                for (const { lines, scrollLeft } of blocks) {
+                    for (const el of lines) {
+                        this.setLineScroll(el, scrollLeft);
+                    }
+                }
+            },
+        });
+    }
+
+    /**
+     * Groups the rendered code lines of the editor into code blocks
+     * and looks up the stored scroll position of each block.
+     */
+    private collectOffsets(view: EditorView): { lines: Element[]; scrollLeft: number }[] {
+        const offsets = view.state.field(codeBlockOffsetsField, false);
+        if (!offsets) return [];
+
+        const blocks: { lines: Element[]; scrollLeft: number }[] = [];
+        const children = Array.from(view.contentDOM.children);
+
+        let lines: Element[] = [];
+        for (let i = 0; i <= children.length; i++) {
+            if (i < children.length && this.insideCodeBlock(children[i].classList)) {
+                lines.push(children[i]);
+                continue;
+            }
+            if (!lines.length) continue;
+
+            // The block, which is currently scrolled, is ahead of the editor state.
+            let scrollLeft: number;
+            if (this.isOffsetStorePending && lines.some((el) => this.codeBlockLines.includes(el))) {
+                scrollLeft = this.currentScrollLeft;
+            } else {
+                const state = view.state;
+                const fence = this.findOpeningFence(
+                    state,
+                    state.doc.lineAt(view.posAtDOM(lines[0])).number,
+                );
+                scrollLeft = fence === null ? 0 : (offsets.get(fence) ?? 0);
+            }
+
+            blocks.push({ lines, scrollLeft });
+            lines = [];
+        }
+
+        return blocks;
+    }
+
+    /**
+     * Stores the scroll position of the code block containing the line in the editor state.
+     */
+    private storeOffset(line: Element, scrollLeft: number): void {
+        this.isOffsetStorePending = false;
+
+        if (!line.isConnected) return;
+
+        const view = EditorView.findFromDOM(line as HTMLElement);
+        const offsets = view?.state.field(codeBlockOffsetsField, false);
+        if (!offsets) return;
+
+        const state = view.state;
+        const fence = this.findOpeningFence(state, state.doc.lineAt(view.posAtDOM(line)).number);
+        if (fence === null || (offsets.get(fence) ?? 0) === scrollLeft) return;
+
+        this.plugin.events.skipNextViewUpdate();
+        view.dispatch({ effects: setCodeBlockOffsets.of({ [fence]: scrollLeft }) });
+    }
+
+    /**
+     * Returns the position of the opening fence of the code block containing the line.
+     */
+    private findOpeningFence(state: EditorState, lineNumber: number): number | null {
+        const blocks = state.field(codeBlocksField, false) ?? [];
+        const block = getCodeBlocksInLines(blocks, lineNumber, lineNumber)[0];
+        return block ? state.doc.line(block.openLine).from : null;
     }
 
     /*
@@ -150,6 +368,7 @@ export class CodeBlock {
         this.currentScrollWidth = null;
 
         this.currentScrollLeft = 0;
+        this.isOffsetStorePending = false;
 
         this.lastScrollTop = null;
         this.isScrollingVertically = false;
@@ -162,6 +381,10 @@ export class CodeBlock {
         if (!lineEl) return;
 
         this.updateWidthAndBlock(lineEl);
+
+        // Keep the scroll position of the code block in the new leaf.
+        this.currentScrollLeft = lineEl.scrollLeft;
+
         this.updateCursorPassive(editor);
     }
 
@@ -174,6 +397,10 @@ export class CodeBlock {
         // Fast exit for non-code blocks
         if (!this.plugin.settings.codeBlockScrollEnabled) return false;
 
+        // Code blocks in reading mode scroll as a whole.
+        const previewCode = this.getPreviewCode(event.target);
+        if (previewCode) return this.previewWheelScroll(event, previewCode);
+
         let line = event.target as Element;
 
         // Support scrolling on indent & collapse indicator
@@ -199,7 +426,7 @@ export class CodeBlock {
         const leaf = this.getEventLeaf(event);
         if (!leaf || !(leaf.view instanceof MarkdownView)) return false;
 
-        let { deltaX, deltaY } = this.normalizeWheelDelta(event);
+        let { deltaX, deltaY } = normalizeWheelDelta(event);
         const isHorizontalScroll = Math.abs(deltaX) >= Math.abs(deltaY);
         if (isHorizontalScroll && !this.isScrollingVertically) {
             this.horizontalWheelScroll(leaf.view.editor, deltaX, line, event.timeStamp);
@@ -212,6 +439,75 @@ export class CodeBlock {
         return false;
     }
 
+    /**
+     * Returns the scrollable code element of a code block in reading mode containing the target.
+     */
+    private getPreviewCode(target: EventTarget | null): Element | null {
+        if (!(target instanceof Element)) return null;
+        return target.closest(".markdown-preview-view pre:not(.scrolling-code-wrap) > code");
+    }
+
+    /**
+     * Scrolls a code block in reading mode horizontally with the same momentum as in source mode.
+     * Returns true if the wheel event is handled successfully.
+     */
+    private previewWheelScroll(event: WheelEvent, code: Element): boolean {
+        const { deltaX, deltaY } = normalizeWheelDelta(event);
+        if (Math.abs(deltaX) < Math.abs(deltaY) || this.isScrollingVertically) return false;
+
+        const now = event.timeStamp;
+        if (
+            code !== this.previewCode ||
+            now - this.previewScrollTimeStamp > this.CODE_BLOCK_WIDTH_TIMEOUT
+        ) {
+            // The code element is not extended, see EXTRA_LINE_LENGTH.
+            this.previewCode = code;
+            this.previewScrollWidth = Math.max(0, code.scrollWidth - code.clientWidth);
+            this.previewScrollTimeStamp = now;
+        }
+
+        if (!this.previewScrollWidth) return false;
+
+        this.previewScrollVelocity = deltaX * this.SCROLL_FACTOR;
+
+        // Restore previous position
+        this.previewScrollLeft = code.scrollLeft;
+
+        if (this.previewAnimationFrame) {
+            window.cancelAnimationFrame(this.previewAnimationFrame);
+        }
+
+        this.animatePreviewScroll();
+        return true;
+    }
+
+    /**
+     * Scrolls the code block of reading mode horizontally over multiple animation frames.
+     */
+    private animatePreviewScroll(): void {
+        if (!this.previewCode) return;
+
+        this.previewScrollLeft = clamp(
+            this.previewScrollLeft + this.previewScrollVelocity,
+            0,
+            this.previewScrollWidth,
+        );
+
+        const atEdge =
+            this.previewScrollLeft === 0 || this.previewScrollLeft === this.previewScrollWidth;
+        if (!atEdge && Math.abs(this.previewScrollVelocity) > 0.2) {
+            this.previewScrollVelocity *= this.FRICTION_COFFICIENT;
+            this.previewAnimationFrame = window.requestAnimationFrame(() =>
+                this.animatePreviewScroll(),
+            );
+        } else {
+            this.previewScrollVelocity = 0;
+            this.previewAnimationFrame = 0;
+        }
+
+        this.previewCode.scrollLeft = this.previewScrollLeft;
+    }
+
     private getEventLeaf(event: Event) {
         let eventLeaf: WorkspaceLeaf;
         this.plugin.app.workspace.iterateRootLeaves((leaf) => {
@@ -252,16 +548,111 @@ export class CodeBlock {
 
         const isHorizontalScroll = Math.abs(deltaX) >= Math.abs(deltaY);
         if (isHorizontalScroll && !this.isScrollingVertically) {
-            this.horizontalWheelScroll(leaf.view.editor, deltaX, line, event.timeStamp);
+            this.touchScroll(leaf.view.editor, deltaX, line, event.timeStamp);
 
-            // Stop Obsidian from expanding the side panels
-            event.stopPropagation();
+            // Stop Obsidian from expanding the side panels, until the gesture is released.
+            if (!this.isTouchReleased) event.stopPropagation();
             return;
         } else if (leaf.view.editor) {
             this.verticalWheelScrollDebouncer(leaf.view.editor, line);
         }
     }
 
+    /**
+     * On touch start event.
+     * Stops the fling of the previous gesture like native scrolling.
+     */
+    private touchStartHandler(): void {
+        this.touchSamples = [];
+        this.touchOverscroll = 0;
+        this.isTouchReleased = false;
+
+        if (this.scrollAnimationFrame) {
+            window.cancelAnimationFrame(this.scrollAnimationFrame);
+            this.scrollAnimationFrame = 0;
+        }
+    }
+
+    /**
+     * On touch end event.
+     * Continues scrolling the code block with the velocity of the finger.
+     */
+    private touchEndHandler(event: TouchEvent): void {
+        const samples = this.touchSamples;
+        this.touchSamples = [];
+
+        if (this.isTouchReleased || !this.codeBlockLines.length) return;
+
+        const velocity = this.calculateFlingVelocity(samples, event.timeStamp);
+        if (!velocity) return;
+
+        this.currentScrollVelocity = velocity;
+        this.animateScroll(this.touchEditor);
+    }
+
+    /**
+     * Scrolls the code block of the line by the movement of the finger.
+     * Resists scrolling beyond the edges, until the gesture is released to Obsidian.
+     */
+    private touchScroll(editor: Editor, deltaX: number, line: Element, now: number): void {
+        if (this.isTouchReleased) return;
+
+        if (!this.codeBlockLines.includes(line) || this.currentScrollWidth === null) {
+            this.updateWidthAndBlock(line);
+
+            // Restore previous position
+            this.currentScrollLeft = line.scrollLeft;
+        }
+
+        // No scrollable lines, e.g., if the code block keeps wrapping.
+        if (!this.codeBlockLines.length) return;
+
+        if (this.scrollAnimationFrame) {
+            window.cancelAnimationFrame(this.scrollAnimationFrame);
+            this.scrollAnimationFrame = 0;
+        }
+
+        const scrollLeft = clamp(this.currentScrollLeft + deltaX, 0, this.currentScrollWidth);
+        if (scrollLeft === this.currentScrollLeft) {
+            this.touchOverscroll += Math.abs(deltaX);
+            if (this.touchOverscroll > this.EDGE_RESISTANCE) {
+                this.isTouchReleased = true;
+            }
+            return;
+        }
+
+        this.touchOverscroll = 0;
+        this.touchEditor = editor;
+        this.touchSamples.push({ deltaX, time: now });
+
+        this.currentScrollLeft = scrollLeft;
+        this.updateHorizontalScroll();
+        this.updateCursorPassive(editor);
+    }
+
+    /**
+     * Returns the velocity of the finger in pixels per frame based on recent touch samples.
+     * Returns zero, if the finger rested before it was lifted.
+     */
+    private calculateFlingVelocity(
+        samples: { deltaX: number; time: number }[],
+        now: number,
+    ): number {
+        const recent = samples.filter((sample) => now - sample.time <= this.FLING_SAMPLE_WINDOW);
+        if (recent.length < 2) return 0;
+
+        const duration = recent[recent.length - 1].time - recent[0].time;
+        if (duration <= 0) return 0;
+
+        // The first sample only marks the start of the measured movement.
+        let distance = 0;
+        for (let i = 1; i < recent.length; i++) {
+            distance += recent[i].deltaX;
+        }
+
+        return (distance / duration) * this.FRAME_DURATION;
+    }
+
     /**
      * On cursor update.
      * Updates code blocks and code block length.
@@ -277,15 +668,24 @@ export class CodeBlock {
         const cursorEl = this.getCursorEl(editor);
 
         const lineEl = editor.cm.contentDOM.querySelector(".cm-line.cm-active");
-        if (!lineEl?.classList?.contains("HyperMD-codeblock")) {
+        if (
+            !lineEl?.classList?.contains("HyperMD-codeblock") ||
+            lineEl.classList.contains("scrolling-code-wrap")
+        ) {
             this.codeBlockLines = [];
             return;
         }
 
-        if (!this.codeBlockLines.includes(lineEl) || docChanged) {
+        const blockChanged = !this.codeBlockLines.includes(lineEl);
+        if (blockChanged || docChanged) {
             this.updateWidthAndBlock(lineEl);
         }
 
+        // Restore previous position, the block might have been scrolled before.
+        if (blockChanged) {
+            this.currentScrollLeft = lineEl.scrollLeft;
+        }
+
         const pos = editor.cm.state.selection.main.head;
         const line = editor.cm.state.doc.lineAt(pos);
         const col = pos - line.from;
@@ -296,11 +696,15 @@ export class CodeBlock {
 
         const cursorScroll = line.length ? this.cachedLineWidth * (col / line.length) : 0;
 
+        // The pinned line number covers the start of the visible code.
         this.currentScrollLeft = Math.min(
             this.currentScrollWidth,
             cursorScroll,
             Math.max(
-                cursorScroll - this.cachedBlockRect.width + charWidth * (cursorEl ? 5 : 4),
+                cursorScroll +
+                    this.cachedGutterWidth -
+                    this.cachedBlockRect.width +
+                    charWidth * (cursorEl ? 5 : 4),
                 this.currentScrollLeft,
             ),
         );
@@ -320,25 +724,8 @@ export class CodeBlock {
     }
 
     /**
-     * Normalizes the delta values of the event.
-     * Swaps the X and Y axis if the shift key is held and the delta dominates on the Y axis.
-     */
-    private normalizeWheelDelta(event: WheelEvent) {
-        let scale = 1;
-
-        // Approximate line height as 16 pixels
-        if (event.deltaMode === WheelEvent.DOM_DELTA_LINE) scale = 16;
-        else if (event.deltaMode === WheelEvent.DOM_DELTA_PAGE) scale = window.innerHeight;
-
-        if (event.shiftKey && Math.abs(event.deltaX) < Math.abs(event.deltaY)) {
-            return { deltaX: event.deltaY * scale, deltaY: 0 };
-        }
-
-        return { deltaX: event.deltaX * scale, deltaY: event.deltaY * scale };
-    }
-
-    /**
-     * If timeout has passed, update cachedLineCharCount, cachedBlockRect & cachedLineWidth.
+     * If timeout has passed, update cachedLineCharCount, cachedBlockRect, cachedLineWidth
+     * & cachedGutterWidth.
      */
     private updateCachedValues(editor: Editor, lineEl: Element, line?: Line): void {
         const now = performance.now();
@@ -357,6 +744,7 @@ export class CodeBlock {
             for (let i = 0; i < lineEl.children.length; i++) {
                 this.cachedLineWidth += lineEl.children[i].getBoundingClientRect().width;
             }
+            this.cachedGutterWidth = this.measureGutterWidth(lineEl);
         } else {
             const diff = line.length - this.cachedLineCharCount;
             this.cachedLineWidth += editor.cm.defaultCharacterWidth * diff;
@@ -365,6 +753,17 @@ export class CodeBlock {
         this.cachedLineCharCount = line.length;
     }
 
+    /**
+     * Returns the width of the line number, which is shown in front of the code with CSS.
+     * See CodeBlockGutter.
+     */
+    private measureGutterWidth(lineEl: Element): number {
+        if (!lineEl.hasAttribute("data-scrolling-line-number")) return 0;
+
+        const style = getComputedStyle(lineEl, "::before");
+        return (parseFloat(style.width) || 0) + (parseFloat(style.marginInlineEnd) || 0);
+    }
+
     /**
      * Returns the cached cursor element of the Vim cursor.
      */
@@ -400,7 +799,7 @@ export class CodeBlock {
      * Updates the scrollable width of the code block in pixels based on the longest code line.
      */
     private updateWidthAndBlock(line: Element): void {
-        const width = this.searchCodeLines(line) - this.EXTRA_LINE_LENGTH - line.clientWidth;
+        const width = this.searchCodeLines(line) - EXTRA_LINE_LENGTH - line.clientWidth;
         this.currentScrollWidth = Math.max(0, width);
     }
 
@@ -425,6 +824,9 @@ export class CodeBlock {
             this.codeBlockLines = this.codeBlockLines.filter((e) => e.isConnected);
         }
 
+        // No scrollable lines, e.g., if the code block keeps wrapping.
+        if (!this.codeBlockLines.length) return;
+
         this.currentScrollVelocity = deltaX * this.SCROLL_FACTOR;
 
         // Restore previous position
@@ -468,6 +870,73 @@ export class CodeBlock {
         this.updateCursorPassive(editor);
     }
 
+    /**
+     * Returns true, if the cursor of the editor is inside a scrollable code block.
+     */
+    public isCursorInCodeBlock(editor: Editor): boolean {
+        if (!this.plugin.settings.codeBlockScrollEnabled) return false;
+
+        const lineEl = editor.cm.contentDOM.querySelector(".cm-line.cm-active");
+        return !!lineEl && this.insideCodeBlock(lineEl.classList);
+    }
+
+    /**
+     * Scrolls the code block under the cursor horizontally.
+     * Scrolls by a character, by half of the block width or to the start or end of the block.
+     * Uses the same momentum as wheel scrolling.
+     */
+    public scrollCursorBlock(
+        editor: Editor,
+        unit: "character" | "half" | "end",
+        direction: -1 | 1,
+    ): void {
+        if (!this.isCursorInCodeBlock(editor)) return;
+
+        const lineEl = editor.cm.contentDOM.querySelector(".cm-line.cm-active");
+        this.updateWidthAndBlock(lineEl);
+        if (!this.currentScrollWidth) return;
+
+        // Restore previous position
+        this.currentScrollLeft = lineEl.scrollLeft;
+
+        let distance: number;
+        if (unit === "character") {
+            distance = editor.cm.defaultCharacterWidth * direction;
+        } else if (unit === "half") {
+            distance = (lineEl.clientWidth / 2) * direction;
+        } else if (direction < 0) {
+            distance = -this.currentScrollLeft;
+        } else {
+            distance = this.currentScrollWidth - this.currentScrollLeft;
+        }
+
+        if (this.scrollAnimationFrame) {
+            window.cancelAnimationFrame(this.scrollAnimationFrame);
+        }
+
+        // The velocity decays geometrically, so the total distance is velocity / (1 - friction).
+        this.currentScrollVelocity = distance * (1 - this.FRICTION_COFFICIENT);
+        this.animateScroll(editor);
+    }
+
+    /**
+     * Scrolls the code block containing the line to the given position.
+     * Used while dragging the scrollbar of a code block.
+     */
+    public scrollBlockTo(line: Element, scrollLeft: number): void {
+        if (!this.codeBlockLines.includes(line) || this.currentScrollWidth === null) {
+            this.updateWidthAndBlock(line);
+        }
+
+        if (this.scrollAnimationFrame) {
+            window.cancelAnimationFrame(this.scrollAnimationFrame);
+            this.scrollAnimationFrame = 0;
+        }
+
+        this.currentScrollLeft = clamp(scrollLeft, 0, this.currentScrollWidth);
+        this.updateHorizontalScroll();
+    }
+
     /**
      * Hides Vim's fat cursor, updating every frame would be laggy.
      */
@@ -475,8 +944,8 @@ export class CodeBlock {
         // Fast path: only check editor if we have code block lines
         if (!this.codeBlockLines.length) return;
 
-        // A different leaf with an inactive editor might be scrolled.
-        if (editor && editor !== this.plugin.app.workspace.activeEditor?.editor) return;
+        // A different leaf with an inactive editor or a note in reading mode might be scrolled.
+        if (!editor || editor !== this.plugin.app.workspace.activeEditor?.editor) return;
 
         const cursorEl = this.getCursorEl(editor);
         if (!cursorEl) return;
@@ -489,8 +958,27 @@ export class CodeBlock {
      */
     private updateHorizontalScroll(): void {
         this.codeBlockLines.forEach((el: Element) => {
-            el.scrollLeft = this.currentScrollLeft;
+            this.setLineScroll(el, this.currentScrollLeft);
         });
+
+        // Remember the position, when the lines are recreated or the file is opened again.
+        const line = this.codeBlockLines.find((el) => el.isConnected);
+        if (line) {
+            this.isOffsetStorePending = true;
+            this.storeOffsetDebouncer(line, this.currentScrollLeft);
+        }
+    }
+
+    /**
+     * Scrolls a code line horizontally.
+     * Exposes the position to CSS, which keeps indentation guides, fold indicators
+     * and line numbers in place while the code scrolls.
+     */
+    private setLineScroll(el: Element, scrollLeft: number): void {
+        if (el.scrollLeft !== scrollLeft) el.scrollLeft = scrollLeft;
+
+        // Lines might have been scrolled natively, e.g. when the browser restores them.
+        (el as HTMLElement).setCssProps({ "--scrolling-code-scroll-left": `${scrollLeft}px` });
     }
 
     /**
@@ -545,6 +1033,10 @@ export class CodeBlock {
             if (c === "HyperMD-codeblock-begin" || c === "HyperMD-codeblock-end") {
                 return false;
             }
+            // Code block keeps wrapping due to its language or flags.
+            if (c === "scrolling-code-wrap") {
+                return false;
+            }
         }
 
         return isCode;
@@ -0,0 +1,133 @@
+import { Extension, RangeSetBuilder } from "@codemirror/state";
+import { Decoration, DecorationSet, EditorView, ViewPlugin, ViewUpdate } from "@codemirror/view";
+
+import type { default as ScrollingPlugin } from "@core/main";
+import { FencedCodeBlock, codeBlocksField, getCodeBlocksInLines } from "@core/codeblocks";
+
+/**
+ * Shows line numbers in code blocks of the editor.
+ * The numbers stay in place like a gutter while the code scrolls horizontally,
+ * together with indentation guides and fold indicators, see CodeBlock.setLineScroll.
+ */
+export class CodeBlockGutter {
+    private readonly plugin: ScrollingPlugin;
+
+    /**
+     * Registered once; modified in place and applied with Workspace.updateOptions.
+     */
+    private readonly editorExtensions: Extension[] = [];
+
+    constructor(plugin: ScrollingPlugin) {
+        this.plugin = plugin;
+
+        plugin.registerEditorExtension(this.editorExtensions);
+
+        this.updateStyle();
+
+        plugin.register(() => {
+            activeDocument.body.removeClass("scrolling-code-line-numbers");
+        });
+    }
+
+    /**
+     * Add or remove the line numbers in all editors.
+     * Called on plugin load and change of settings.
+     */
+    public updateStyle(): void {
+        const enabled =
+            this.plugin.settings.codeBlockScrollEnabled &&
+            this.plugin.settings.codeBlockLineNumbersEnabled;
+
+        this.editorExtensions.length = 0;
+        if (enabled) {
+            this.editorExtensions.push(this.createExtension());
+        }
+        this.plugin.app.workspace.updateOptions();
+
+        if (enabled) {
+            activeDocument.body.addClass("scrolling-code-line-numbers");
+        } else {
+            activeDocument.body.removeClass("scrolling-code-line-numbers");
+        }
+    }
+
+    /**
+     * Returns an editor extension, which adds the line number within the code block
+     * as an attribute to each visible code line. The number is shown with CSS.
+     */
+    private createExtension(): Extension {
+        const findCodeLineNumbers = (
+            blocks: FencedCodeBlock[],
+            firstLine: number,
+            lastLine: number,
+        ) => this.findCodeLineNumbers(blocks, firstLine, lastLine);
+
+        const viewPlugin = ViewPlugin.fromClass(
+            class {
+                decorations: DecorationSet;
+
+                constructor(view: EditorView) {
+                    this.decorations = this.buildDecorations(view);
+                }
+
+                update(update: ViewUpdate) {
+                    if (update.docChanged || update.viewportChanged) {
+                        this.decorations = this.buildDecorations(update.view);
+                    }
+                }
+
+                buildDecorations(view: EditorView): DecorationSet {
+                    const builder = new RangeSetBuilder<Decoration>();
+                    const doc = view.state.doc;
+                    const { from, to } = view.viewport;
+
+                    const lineNumbers = findCodeLineNumbers(
+                        view.state.field(codeBlocksField),
+                        doc.lineAt(from).number,
+                        doc.lineAt(to).number,
+                    );
+                    for (const [number, codeLineNumber] of lineNumbers) {
+                        const line = doc.line(number);
+                        builder.add(
+                            line.from,
+                            line.from,
+                            Decoration.line({
+                                attributes: { "data-scrolling-line-number": `${codeLineNumber}` },
+                            }),
+                        );
+                    }
+
+                    return builder.finish();
+                }
+            },
+            { decorations: (value) => value.decorations },
+        );
+
+        return [codeBlocksField, viewPlugin];
+    }
+
+    /**
+     * Returns pairs of document line number and line number within the code block
+     * for all code lines between the first and last line.
+     * Fence lines are not included.
+     */
+    private findCodeLineNumbers(
+        blocks: FencedCodeBlock[],
+        firstLine: number,
+        lastLine: number,
+    ): [number, number][] {
+        const lineNumbers: [number, number][] = [];
+
+        for (const block of getCodeBlocksInLines(blocks, firstLine, lastLine)) {
+            const lastCodeLine = block.closed ? block.closeLine - 1 : block.closeLine;
+            const from = Math.max(firstLine, block.openLine + 1);
+            const to = Math.min(lastLine, lastCodeLine);
+
+            for (let number = from; number <= to; number++) {
+                lineNumbers.push([number, number - block.openLine]);
+            }
+        }
+
+        return lineNumbers;
+    }
+}
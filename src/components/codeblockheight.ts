@@ -0,0 +1,327 @@
+import {
+    EditorState,
+    Extension,
+    MapMode,
+    RangeSetBuilder,
+    StateEffect,
+    StateField,
+} from "@codemirror/state";
+import { Decoration, DecorationSet, EditorView } from "@codemirror/view";
+
+import type { default as ScrollingPlugin } from "@core/main";
+import { FencedCodeBlock, codeBlocksField, getCodeBlocksInLines } from "@core/codeblocks";
+import { clamp, normalizeWheelDelta } from "@core/util";
+
+/**
+ * Scrolls a long code block in Live Preview.
+ * The fence is the document position of the opening fence,
+ * the offset is the number of lines from the opening fence to the first shown code line.
+ */
+const scrollCodeBlock = StateEffect.define<{ fence: number; offset: number }>();
+
+interface CodeBlockHeightState {
+    /** Offsets of scrolled code blocks by position of the opening fence. */
+    offsets: Map<number, number>;
+    /** Opening fences of long code blocks, which contain a cursor. */
+    expanded: number[];
+    decorations: DecorationSet;
+}
+
+/**
+ * Limits the height of long code blocks in reading mode and Live Preview.
+ * Code blocks scroll vertically inside and expand on click or when the cursor enters them.
+ * Reading mode uses CSS, see nested scroll containers in Events.wheelHandler.
+ * Live Preview hides the code lines outside of the shown lines, so that all code lines
+ * stay real lines of the editor, and scrolls by changing the shown lines.
+ */
+export class CodeBlockHeight {
+    private readonly plugin: ScrollingPlugin;
+
+    /**
+     * Registered once; modified in place and applied with Workspace.updateOptions.
+     */
+    private readonly editorExtensions: Extension[] = [];
+
+    private heightField: StateField<CodeBlockHeightState> | null = null;
+
+    constructor(plugin: ScrollingPlugin) {
+        this.plugin = plugin;
+
+        plugin.registerEditorExtension(this.editorExtensions);
+        plugin.registerMarkdownPostProcessor(this.postProcessor.bind(this));
+        plugin.events.onWheelCancelling(this.wheelHandler.bind(this), 7);
+
+        this.updateStyle();
+
+        plugin.register(() => {
+            activeDocument.body.removeClass("scrolling-code-max-height");
+            activeDocument.body.style.removeProperty("--scrolling-code-max-lines");
+        });
+    }
+
+    /**
+     * Update the maximum height of code blocks in all editors and rendered notes.
+     * Called on plugin load and change of settings.
+     */
+    public updateStyle(): void {
+        const enabled = this.plugin.settings.codeBlockMaxHeightEnabled;
+
+        // A new extension is required to rebuild the decorations.
+        this.editorExtensions.length = 0;
+        this.heightField = null;
+        if (enabled) {
+            this.heightField = this.createField();
+            this.editorExtensions.push(codeBlocksField, this.heightField);
+        }
+        this.plugin.app.workspace.updateOptions();
+
+        if (enabled) {
+            activeDocument.body.addClass("scrolling-code-max-height");
+            activeDocument.body.style.setProperty(
+                "--scrolling-code-max-lines",
+                `${this.plugin.settings.codeBlockMaxLines}`,
+            );
+        } else {
+            activeDocument.body.removeClass("scrolling-code-max-height");
+            activeDocument.body.style.removeProperty("--scrolling-code-max-lines");
+        }
+    }
+
+    /**
+     * Expands rendered code blocks in reading mode on click.
+     */
+    private postProcessor(el: HTMLElement): void {
+        for (const pre of Array.from(el.querySelectorAll("pre"))) {
+            pre.addEventListener("click", (event) => {
+                if (!this.plugin.settings.codeBlockMaxHeightEnabled) return;
+                if ((event.target as Element).closest("button")) return;
+
+                pre.addClass("scrolling-code-expanded");
+            });
+        }
+    }
+
+    /**
+     * Scrolls a long code block in Live Preview by whole lines.
+     * Hands off to the page at the edges of the code block.
+     * Returns true if the wheel event is handled.
+     */
+    private wheelHandler(event: WheelEvent): boolean {
+        if (!this.heightField || !(event.target instanceof Element)) return false;
+
+        const { deltaX, deltaY } = normalizeWheelDelta(event);
+        if (!deltaY || Math.abs(deltaX) > Math.abs(deltaY)) return false;
+
+        const lineEl = event.target.closest<HTMLElement>(".HyperMD-codeblock.cm-line");
+        if (!lineEl) return false;
+
+        const view = EditorView.findFromDOM(lineEl);
+        if (!view) return false;
+
+        const state = view.state;
+        const number = state.doc.lineAt(view.posAtDOM(lineEl)).number;
+        const blocks = this.findLongCodeBlocks(state.field(codeBlocksField, false) ?? []);
+        const block = getCodeBlocksInLines(blocks, number, number)[0];
+        if (!block) return false;
+
+        const lines = Math.round(deltaY / view.defaultLineHeight) || Math.sign(deltaY);
+        const effect = this.getScrollEffect(state, block, lines);
+        if (!effect) return false;
+
+        view.dispatch({ effects: effect });
+        return true;
+    }
+
+    /**
+     * Returns the effect scrolling the code block by the number of lines.
+     * Returns null, if the code block does not scroll.
+     */
+    private getScrollEffect(
+        state: EditorState,
+        block: FencedCodeBlock,
+        lines: number,
+    ): StateEffect<{ fence: number; offset: number }> | null {
+        const offset = this.getScrolledOffset(state, block, lines);
+        if (offset === null) return null;
+
+        return scrollCodeBlock.of({ fence: state.doc.line(block.openLine).from, offset });
+    }
+
+    /**
+     * Returns the offset of the code block after scrolling it by the number of lines.
+     * Returns null, if the code block is expanded or cannot scroll further in this direction.
+     */
+    private getScrolledOffset(
+        state: EditorState,
+        block: FencedCodeBlock,
+        lines: number,
+    ): number | null {
+        const value = this.heightField && state.field(this.heightField, false);
+        if (!value) return null;
+
+        const fence = state.doc.line(block.openLine).from;
+        if (value.expanded.includes(fence)) return null;
+
+        const current = this.clampOffset(block, value.offsets.get(fence));
+        const offset = this.clampOffset(block, current + lines);
+        return offset === current ? null : offset;
+    }
+
+    /**
+     * Returns the offset of the first shown code line from the opening fence,
+     * so that the shown lines stay within the code lines.
+     */
+    private clampOffset(block: FencedCodeBlock, offset = 1): number {
+        const maxLines = this.plugin.settings.codeBlockMaxLines;
+        return clamp(offset, 1, block.closeLine - block.openLine - maxLines);
+    }
+
+    /**
+     * Returns the state field, which provides the decorations hiding lines of long code blocks.
+     * Block decorations must be provided by a state field.
+     */
+    private createField(): StateField<CodeBlockHeightState> {
+        const findExpanded = (state: EditorState) => this.findExpanded(state);
+        const buildDecorations = (
+            state: EditorState,
+            offsets: Map<number, number>,
+            expanded: number[],
+        ) => this.buildDecorations(state, offsets, expanded);
+        const isLivePreview = (state: EditorState) => this.plugin.events.isLivePreview(state);
+
+        return StateField.define<CodeBlockHeightState>({
+            create(state) {
+                const offsets = new Map<number, number>();
+                const expanded = findExpanded(state);
+                return {
+                    offsets,
+                    expanded,
+                    decorations: buildDecorations(state, offsets, expanded),
+                };
+            },
+            update(value, tr) {
+                let { offsets } = value;
+                let scrolled = false;
+
+                if (tr.docChanged) {
+                    const mapped = new Map<number, number>();
+                    offsets.forEach((offset, fence) => {
+                        // Drop blocks, whose opening fence was deleted.
+                        const newFence = tr.changes.mapPos(fence, 1, MapMode.TrackAfter);
+                        if (newFence !== null) mapped.set(newFence, offset);
+                    });
+                    offsets = mapped;
+                }
+
+                for (const effect of tr.effects) {
+                    if (!effect.is(scrollCodeBlock)) continue;
+
+                    offsets = new Map(offsets);
+                    offsets.set(effect.value.fence, effect.value.offset);
+                    scrolled = true;
+                }
+
+                // Rebuild only if the cursor entered or left a long code block.
+                const expanded =
+                    tr.docChanged || tr.selection ? findExpanded(tr.state) : value.expanded;
+                const expandedChanged =
+                    expanded.length !== value.expanded.length ||
+                    expanded.some((fence, index) => fence !== value.expanded[index]);
+                const modeChanged = isLivePreview(tr.startState) !== isLivePreview(tr.state);
+                if (!tr.docChanged && !scrolled && !expandedChanged && !modeChanged) {
+                    return value;
+                }
+
+                return {
+                    offsets,
+                    expanded,
+                    decorations: buildDecorations(tr.state, offsets, expanded),
+                };
+            },
+            provide: (field) => EditorView.decorations.from(field, (value) => value.decorations),
+        });
+    }
+
+    /**
+     * Returns the opening fences of long code blocks, which contain a cursor.
+     */
+    private findExpanded(state: EditorState): number[] {
+        const blocks = this.findLongCodeBlocks(state.field(codeBlocksField));
+        const expanded: number[] = [];
+
+        for (const range of state.selection.ranges) {
+            const firstLine = state.doc.lineAt(range.from).number;
+            const lastLine = state.doc.lineAt(range.to).number;
+            for (const block of getCodeBlocksInLines(blocks, firstLine, lastLine)) {
+                const fence = state.doc.line(block.openLine).from;
+                if (!expanded.includes(fence)) expanded.push(fence);
+            }
+        }
+
+        return expanded.sort((a, b) => a - b);
+    }
+
+    /**
+     * Hides the code lines of long code blocks, which are not shown, in Live Preview.
+     * Code blocks containing a cursor and source mode show all lines.
+     */
+    private buildDecorations(
+        state: EditorState,
+        offsets: Map<number, number>,
+        expanded: number[],
+    ): DecorationSet {
+        if (!this.plugin.events.isLivePreview(state)) return Decoration.none;
+
+        const doc = state.doc;
+        const maxLines = this.plugin.settings.codeBlockMaxLines;
+
+        const builder = new RangeSetBuilder<Decoration>();
+        for (const block of this.findLongCodeBlocks(state.field(codeBlocksField))) {
+            const fence = doc.line(block.openLine).from;
+            if (expanded.includes(fence)) continue;
+
+            const firstLine = block.openLine + this.clampOffset(block, offsets.get(fence));
+            const lastLine = firstLine + maxLines - 1;
+
+            if (firstLine > block.openLine + 1) {
+                builder.add(
+                    doc.line(block.openLine + 1).from,
+                    doc.line(firstLine - 1).to,
+                    Decoration.replace({ block: true }),
+                );
+                builder.add(
+                    doc.line(firstLine).from,
+                    doc.line(firstLine).from,
+                    Decoration.line({ class: "scrolling-code-clipped-top" }),
+                );
+            }
+
+            if (lastLine < block.closeLine - 1) {
+                builder.add(
+                    doc.line(lastLine).from,
+                    doc.line(lastLine).from,
+                    Decoration.line({ class: "scrolling-code-clipped-bottom" }),
+                );
+                builder.add(
+                    doc.line(lastLine + 1).from,
+                    doc.line(block.closeLine - 1).to,
+                    Decoration.replace({ block: true }),
+                );
+            }
+        }
+
+        return builder.finish();
+    }
+
+    /**
+     * Returns all closed code blocks with more code lines than the maximum.
+     * Code blocks inside of callouts and quotes are rendered by Obsidian and ignored.
+     */
+    private findLongCodeBlocks(blocks: FencedCodeBlock[]): FencedCodeBlock[] {
+        const maxLines = this.plugin.settings.codeBlockMaxLines;
+        return blocks.filter(
+            (block) =>
+                block.closed && !block.nested && block.closeLine - block.openLine - 1 > maxLines,
+        );
+    }
+}
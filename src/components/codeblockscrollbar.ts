@@ -0,0 +1,259 @@
+import { Extension } from "@codemirror/state";
+import { EditorView, ViewPlugin, ViewUpdate } from "@codemirror/view";
+
+import type { default as ScrollingPlugin } from "@core/main";
+import { EXTRA_LINE_LENGTH, clamp } from "@core/util";
+
+/**
+ * Measured state of a code block in the editor.
+ * Positions are relative to the content of the scroller.
+ */
+interface ScrollbarBlock {
+    /** Rendered code lines of the block. */
+    lines: Element[];
+    scrollLeft: number;
+    /** Maximum horizontal scroll position in pixels. */
+    scrollWidth: number;
+    clientWidth: number;
+    top: number;
+    left: number;
+    width: number;
+}
+
+/**
+ * Shows a thin scrollbar below code blocks, which are scrolled horizontally.
+ * The scrollbar can be dragged and is hidden if the block fits into the editor.
+ */
+export class CodeBlockScrollbar {
+    private readonly plugin: ScrollingPlugin;
+
+    /**
+     * Registered once; modified in place and applied with Workspace.updateOptions.
+     */
+    private readonly editorExtensions: Extension[] = [];
+
+    /**
+     * Blocks of the last measure by scrollbar layer.
+     * Scrollbars are reused for other blocks, once lines are scrolled or rendered.
+     */
+    private readonly layerBlocks = new WeakMap<HTMLElement, ScrollbarBlock[]>();
+
+    private readonly MIN_THUMB_WIDTH = 20;
+
+    constructor(plugin: ScrollingPlugin) {
+        this.plugin = plugin;
+
+        plugin.registerEditorExtension(this.editorExtensions);
+
+        this.updateStyle();
+    }
+
+    /**
+     * Add or remove the scrollbars in all editors.
+     * Called on plugin load and change of settings.
+     */
+    public updateStyle(): void {
+        const enabled =
+            this.plugin.settings.codeBlockScrollEnabled &&
+            this.plugin.settings.codeBlockScrollbarEnabled;
+
+        this.editorExtensions.length = 0;
+        if (enabled) {
+            this.editorExtensions.push(this.createExtension());
+        }
+        this.plugin.app.workspace.updateOptions();
+    }
+
+    /**
+     * Returns an editor extension, which draws the scrollbars into a layer of the scroller.
+     * Scrollbars are measured again, whenever lines are scrolled or rendered.
+     */
+    private createExtension(): Extension {
+        const measureBlocks = (view: EditorView) => this.measureBlocks(view);
+        const drawScrollbars = (layer: HTMLElement, blocks: ScrollbarBlock[]) =>
+            this.drawScrollbars(layer, blocks);
+
+        return ViewPlugin.fromClass(
+            class {
+                private readonly view: EditorView;
+                private readonly layer: HTMLElement;
+                private readonly scrollHandler = () => this.measure();
+
+                constructor(view: EditorView) {
+                    this.view = view;
+                    this.layer = view.scrollDOM.createDiv({ cls: "scrolling-code-scrollbar-layer" });
+
+                    // Scroll events of lines do not bubble, but can be captured.
+                    view.contentDOM.addEventListener("scroll", this.scrollHandler, {
+                        capture: true,
+                        passive: true,
+                    });
+
+                    this.measure();
+                }
+
+                update(update: ViewUpdate) {
+                    if (update.geometryChanged || update.viewportChanged || update.docChanged) {
+                        this.measure();
+                    }
+                }
+
+                destroy() {
+                    this.view.contentDOM.removeEventListener("scroll", this.scrollHandler, {
+                        capture: true,
+                    });
+                    this.layer.remove();
+                }
+
+                measure() {
+                    this.view.requestMeasure({
+                        key: this,
+                        read: (view) => measureBlocks(view),
+                        write: (blocks) => drawScrollbars(this.layer, blocks),
+                    });
+                }
+            },
+        );
+    }
+
+    /**
+     * Groups the rendered code lines of the editor into code blocks.
+     */
+    private collectBlocks(contentDOM: HTMLElement): Element[][] {
+        const blocks: Element[][] = [];
+
+        let lines: Element[] = [];
+        for (const el of Array.from(contentDOM.children)) {
+            const classes = el.classList;
+            if (
+                classes.contains("HyperMD-codeblock") &&
+                !classes.contains("HyperMD-codeblock-begin") &&
+                !classes.contains("HyperMD-codeblock-end")
+            ) {
+                lines.push(el);
+            } else if (lines.length) {
+                blocks.push(lines);
+                lines = [];
+            }
+        }
+
+        if (lines.length) blocks.push(lines);
+
+        return blocks;
+    }
+
+    /**
+     * Measures scroll position, scrollable width and position of all rendered code blocks.
+     */
+    private measureBlocks(view: EditorView): ScrollbarBlock[] {
+        const scrollDOM = view.scrollDOM;
+        const scrollRect = scrollDOM.getBoundingClientRect();
+
+        return this.collectBlocks(view.contentDOM).map((lines) => {
+            let maxScrollWidth = 0;
+            for (const line of lines) {
+                maxScrollWidth = Math.max(maxScrollWidth, line.scrollWidth);
+            }
+
+            // Bottom most line, which is currently rendered.
+            const rect = lines[lines.length - 1].getBoundingClientRect();
+
+            return {
+                lines,
+                scrollLeft: lines[0].scrollLeft,
+                scrollWidth: Math.max(0, maxScrollWidth - EXTRA_LINE_LENGTH - lines[0].clientWidth),
+                clientWidth: lines[0].clientWidth,
+                top: rect.bottom - scrollRect.top + scrollDOM.scrollTop,
+                left: rect.left - scrollRect.left + scrollDOM.scrollLeft,
+                width: rect.width,
+            };
+        });
+    }
+
+    /**
+     * Returns the width and position of the thumb within the track.
+     */
+    private calculateThumb(block: ScrollbarBlock): { width: number; left: number } {
+        const ratio = block.clientWidth / (block.clientWidth + block.scrollWidth);
+        const width = clamp(block.width * ratio, this.MIN_THUMB_WIDTH, block.width);
+        const progress = block.scrollWidth ? block.scrollLeft / block.scrollWidth : 0;
+
+        return { width, left: (block.width - width) * clamp(progress, 0, 1) };
+    }
+
+    /**
+     * Updates the scrollbars in the layer. Reuses existing elements.
+     */
+    private drawScrollbars(layer: HTMLElement, blocks: ScrollbarBlock[]): void {
+        this.layerBlocks.set(layer, blocks);
+
+        while (layer.children.length > blocks.length) {
+            layer.lastElementChild.remove();
+        }
+        while (layer.children.length < blocks.length) {
+            const thumb = layer.createDiv({ cls: "scrolling-code-scrollbar" }).createDiv({
+                cls: "scrolling-code-scrollbar-thumb",
+            });
+            thumb.onpointerdown = (event) => this.startDrag(event, layer);
+        }
+
+        blocks.forEach((block, index) => {
+            const track = layer.children[index] as HTMLElement;
+            const thumb = track.firstElementChild as HTMLElement;
+
+            if (!block.scrollWidth) {
+                track.hide();
+                return;
+            }
+
+            const { width, left } = this.calculateThumb(block);
+
+            track.show();
+            track.setCssStyles({
+                top: `${block.top}px`,
+                left: `${block.left}px`,
+                width: `${block.width}px`,
+            });
+            thumb.setCssStyles({ width: `${width}px`, left: `${left}px` });
+        });
+    }
+
+    /**
+     * Scrolls the code block while the thumb is dragged.
+     * Looks up the block of the thumb in the last measure of the layer.
+     */
+    private startDrag(event: PointerEvent, layer: HTMLElement): void {
+        const thumb = event.target as HTMLElement;
+        const index = Array.from(layer.children).indexOf(thumb.parentElement);
+        const block = this.layerBlocks.get(layer)?.[index];
+        if (!block) return;
+
+        // Lines might be removed by CodeMirror while dragging.
+        const line = block.lines.find((el) => el.isConnected);
+        if (!line) return;
+
+        event.preventDefault();
+        thumb.setPointerCapture(event.pointerId);
+
+        // The block might have been scrolled since the last measure.
+        const startX = event.clientX;
+        const startScrollLeft = line.scrollLeft;
+        const ratio =
+            block.scrollWidth / Math.max(1, block.width - this.calculateThumb(block).width);
+
+        const moveHandler = (ev: PointerEvent) => {
+            const scrollLeft = startScrollLeft + (ev.clientX - startX) * ratio;
+            this.plugin.codeBlock.scrollBlockTo(line, scrollLeft);
+        };
+
+        const upHandler = () => {
+            thumb.removeEventListener("pointermove", moveHandler);
+            thumb.removeEventListener("pointerup", upHandler);
+            thumb.removeEventListener("pointercancel", upHandler);
+        };
+
+        thumb.addEventListener("pointermove", moveHandler);
+        thumb.addEventListener("pointerup", upHandler);
+        thumb.addEventListener("pointercancel", upHandler);
+    }
+}
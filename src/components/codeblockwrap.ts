@@ -0,0 +1,226 @@
+import { MarkdownPostProcessorContext, MarkdownView, debounce } from "obsidian";
+import { Extension, RangeSetBuilder } from "@codemirror/state";
+import { Decoration, DecorationSet, EditorView, ViewPlugin, ViewUpdate } from "@codemirror/view";
+
+import type { default as ScrollingPlugin } from "@core/main";
+import type { ScrollingPluginSettings } from "@core/settings";
+import { FencedCodeBlock, codeBlocksField, getCodeBlocksInLines } from "@core/codeblocks";
+import { FENCE_REGEX } from "@core/util";
+
+/** Marks code lines and rendered code blocks, which keep wrapping. */
+const WRAP_CLASS = "scrolling-code-wrap";
+
+/**
+ * Splits a comma separated list of languages.
+ */
+function parseLanguages(list: string): string[] {
+    return list
+        .split(",")
+        .map((language) => language.trim().toLowerCase())
+        .filter((language) => language);
+}
+
+/**
+ * Language lists of the settings.
+ */
+interface WrapRules {
+    wrapLanguages: string[];
+    scrollLanguages: string[];
+}
+
+/**
+ * Parses the language lists of the settings.
+ */
+export function parseWrapRules(settings: ScrollingPluginSettings): WrapRules {
+    return {
+        wrapLanguages: parseLanguages(settings.codeBlockWrapLanguages),
+        scrollLanguages: parseLanguages(settings.codeBlockScrollLanguages),
+    };
+}
+
+/**
+ * Returns true, if a code block with the given info string should keep wrapping.
+ * The flags wrap and nowrap take precedence over the language lists.
+ */
+export function shouldWrapCodeBlock(info: string, rules: WrapRules): boolean {
+    const words = info.trim().toLowerCase().split(/\s+/);
+
+    if (words.includes("nowrap")) return false;
+    if (words.includes("wrap")) return true;
+
+    const language = words[0];
+    if (rules.wrapLanguages.includes(language)) return true;
+
+    return rules.scrollLanguages.length > 0 && !rules.scrollLanguages.includes(language);
+}
+
+/**
+ * Applies the wrapping rules of code blocks.
+ * Marks the lines in the editor with a line decoration and rendered code blocks with a class.
+ */
+export class CodeBlockWrap {
+    private readonly plugin: ScrollingPlugin;
+
+    /**
+     * Registered once; modified in place and applied with Workspace.updateOptions.
+     */
+    private readonly editorExtensions: Extension[] = [];
+
+    /** Rendering notes again is expensive, so wait until the user stops typing. */
+    private readonly rerenderDebouncer: () => void;
+
+    private rules: WrapRules = { wrapLanguages: [], scrollLanguages: [] };
+
+    /** Rules applied to the rendered notes, empty if disabled. */
+    private renderedRules = "";
+
+    constructor(plugin: ScrollingPlugin) {
+        this.plugin = plugin;
+
+        this.rerenderDebouncer = debounce(this.rerenderPreviews.bind(this), 500, true);
+
+        plugin.registerEditorExtension(this.editorExtensions);
+        plugin.registerMarkdownPostProcessor(this.postProcessor.bind(this));
+
+        this.updateStyle();
+    }
+
+    /**
+     * Applies changed wrapping rules to all editors and rendered notes.
+     * Called on plugin load and change of settings.
+     */
+    public updateStyle(): void {
+        const enabled = this.plugin.settings.codeBlockScrollEnabled;
+        this.rules = parseWrapRules(this.plugin.settings);
+
+        // A new extension is required to rebuild the decorations.
+        this.editorExtensions.length = 0;
+        if (enabled) {
+            this.editorExtensions.push(this.createExtension());
+        }
+        this.plugin.app.workspace.updateOptions();
+
+        const renderedRules = enabled ? JSON.stringify(this.rules) : "";
+        if (renderedRules !== this.renderedRules) {
+            this.renderedRules = renderedRules;
+            this.rerenderDebouncer();
+        }
+    }
+
+    /**
+     * Renders all notes in reading mode again to apply the post processor.
+     */
+    private rerenderPreviews(): void {
+        this.plugin.app.workspace.iterateAllLeaves((leaf) => {
+            if (leaf.view instanceof MarkdownView) {
+                leaf.view.previewMode.rerender(true);
+            }
+        });
+    }
+
+    /**
+     * Marks rendered code blocks in reading mode, which keep wrapping.
+     */
+    private postProcessor(el: HTMLElement, ctx: MarkdownPostProcessorContext): void {
+        if (!this.plugin.settings.codeBlockScrollEnabled) return;
+
+        for (const pre of Array.from(el.querySelectorAll("pre"))) {
+            if (shouldWrapCodeBlock(this.getInfoString(pre, el, ctx), this.rules)) {
+                pre.addClass(WRAP_CLASS);
+            }
+        }
+    }
+
+    /**
+     * Returns the info string of a rendered code block.
+     * Falls back to the language class, if the source of the section is not available.
+     */
+    private getInfoString(pre: HTMLElement, el: HTMLElement, ctx: MarkdownPostProcessorContext) {
+        const section = ctx.getSectionInfo(el);
+        if (section) {
+            const match = FENCE_REGEX.exec(section.text.split("\n")[section.lineStart]);
+            if (match) return match[2];
+        }
+
+        const languageClass = Array.from(pre.querySelector("code")?.classList ?? []).find((cls) =>
+            cls.startsWith("language-"),
+        );
+        return languageClass?.slice("language-".length) ?? "";
+    }
+
+    /**
+     * Returns an editor extension, which adds a class to visible code lines, that keep wrapping.
+     */
+    private createExtension(): Extension {
+        const findWrappedLines = (blocks: FencedCodeBlock[], firstLine: number, lastLine: number) =>
+            this.findWrappedLines(blocks, firstLine, lastLine);
+
+        const viewPlugin = ViewPlugin.fromClass(
+            class {
+                decorations: DecorationSet;
+
+                constructor(view: EditorView) {
+                    this.decorations = this.buildDecorations(view);
+                }
+
+                update(update: ViewUpdate) {
+                    if (update.docChanged || update.viewportChanged) {
+                        this.decorations = this.buildDecorations(update.view);
+                    }
+                }
+
+                buildDecorations(view: EditorView): DecorationSet {
+                    const builder = new RangeSetBuilder<Decoration>();
+                    const doc = view.state.doc;
+                    const blocks = view.state.field(codeBlocksField);
+
+                    for (const { from, to } of view.visibleRanges) {
+                        const lines = findWrappedLines(
+                            blocks,
+                            doc.lineAt(from).number,
+                            doc.lineAt(to).number,
+                        );
+                        for (const number of lines) {
+                            const line = doc.line(number);
+                            builder.add(
+                                line.from,
+                                line.from,
+                                Decoration.line({ class: WRAP_CLASS }),
+                            );
+                        }
+                    }
+
+                    return builder.finish();
+                }
+            },
+            { decorations: (value) => value.decorations },
+        );
+
+        return [codeBlocksField, viewPlugin];
+    }
+
+    /**
+     * Returns the numbers of all code lines between the first and last line, which keep wrapping.
+     * Fence lines are not included.
+     */
+    private findWrappedLines(
+        blocks: FencedCodeBlock[],
+        firstLine: number,
+        lastLine: number,
+    ): number[] {
+        const lines: number[] = [];
+
+        for (const block of getCodeBlocksInLines(blocks, firstLine, lastLine)) {
+            if (!shouldWrapCodeBlock(block.info, this.rules)) continue;
+
+            const lastCodeLine = block.closed ? block.closeLine - 1 : block.closeLine;
+            const from = Math.max(firstLine, block.openLine + 1);
+            const to = Math.min(lastLine, lastCodeLine);
+            for (let number = from; number <= to; number++) {
+                lines.push(number);
+            }
+        }
+
+        return lines;
+    }
+}
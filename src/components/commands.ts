@@ -10,9 +10,65 @@ function scrollToBottom(el: Element) {
     el.scrollTo({ top: 1000000000 });
 }
 
+/**
+ * Commands to scroll the code block under the cursor horizontally.
+ * With Vim mode, they are also mapped to keys in normal mode.
+ */
+const CODE_BLOCK_SCROLL_COMMANDS: {
+    id: string;
+    name: string;
+    vimKeys: string;
+    unit: "character" | "half" | "end";
+    direction: -1 | 1;
+}[] = [
+    {
+        id: "code-block-scroll-left",
+        name: "Scroll code block left",
+        vimKeys: "zh",
+        unit: "character",
+        direction: -1,
+    },
+    {
+        id: "code-block-scroll-right",
+        name: "Scroll code block right",
+        vimKeys: "zl",
+        unit: "character",
+        direction: 1,
+    },
+    {
+        id: "code-block-scroll-half-left",
+        name: "Scroll code block left by half width",
+        vimKeys: "zH",
+        unit: "half",
+        direction: -1,
+    },
+    {
+        id: "code-block-scroll-half-right",
+        name: "Scroll code block right by half width",
+        vimKeys: "zL",
+        unit: "half",
+        direction: 1,
+    },
+    {
+        id: "code-block-scroll-start",
+        name: "Scroll code block to start",
+        vimKeys: "zs",
+        unit: "end",
+        direction: -1,
+    },
+    {
+        id: "code-block-scroll-end",
+        name: "Scroll code block to end",
+        vimKeys: "ze",
+        unit: "end",
+        direction: 1,
+    },
+];
+
 /**
  * Adds two commands to scroll to the top or bottom of a document.
  * The user can add the commands as keybinds and as ribbon buttons.
+ * Also adds commands to scroll code blocks horizontally.
  */
 export class Commands {
     private readonly plugin: ScrollingPlugin;
@@ -20,6 +76,8 @@ export class Commands {
     private scrollTopRibbon: HTMLElement | null = null;
     private scrollBottomRibbon: HTMLElement | null = null;
 
+    private vimKeysMapped = false;
+
     constructor(plugin: ScrollingPlugin) {
         this.plugin = plugin;
 
@@ -35,9 +93,76 @@ export class Commands {
             callback: this.scrollCallbackWrapper(scrollToBottom),
         });
 
+        for (const command of CODE_BLOCK_SCROLL_COMMANDS) {
+            plugin.addCommand({
+                id: command.id,
+                name: command.name,
+                editorCheckCallback: (checking, editor) => {
+                    if (!plugin.codeBlock.isCursorInCodeBlock(editor)) return false;
+
+                    if (!checking) {
+                        plugin.codeBlock.scrollCursorBlock(editor, command.unit, command.direction);
+                    }
+                    return true;
+                },
+            });
+        }
+
+        plugin.events.onLayoutReady(this.updateVimKeys.bind(this));
+        plugin.events.onConfigChange(this.updateVimKeys.bind(this));
+        plugin.register(this.unmapVimKeys.bind(this));
+
         this.updateRibbonButtons();
     }
 
+    /**
+     * Maps the code block scroll commands to keys in normal mode of Vim,
+     * while code block scrolling and Vim mode are enabled. Unmaps them otherwise.
+     * Called on layout ready, change of settings and change of the vault config.
+     */
+    public updateVimKeys(): void {
+        const vimMode = this.plugin.app.vault.getConfig("vimMode") === true;
+        if (this.plugin.settings.codeBlockScrollEnabled && vimMode) {
+            this.mapVimKeys();
+        } else {
+            this.unmapVimKeys();
+        }
+    }
+
+    /**
+     * Maps the code block scroll commands to keys in normal mode of Vim.
+     * Only possible if Vim mode is enabled.
+     */
+    private mapVimKeys(): void {
+        const vim = window.CodeMirrorAdapter?.Vim;
+        if (!vim || this.vimKeysMapped) return;
+
+        for (const command of CODE_BLOCK_SCROLL_COMMANDS) {
+            const action = `scrolling-${command.id}`;
+            vim.defineAction(action, () => {
+                const editor = this.plugin.app.workspace.activeEditor?.editor;
+                if (!editor) return;
+
+                this.plugin.codeBlock.scrollCursorBlock(editor, command.unit, command.direction);
+            });
+            vim.mapCommand(command.vimKeys, "action", action, {}, { context: "normal" });
+        }
+        this.vimKeysMapped = true;
+    }
+
+    /**
+     * Removes the Vim keys of the code block scroll commands.
+     */
+    private unmapVimKeys(): void {
+        const vim = window.CodeMirrorAdapter?.Vim;
+        if (!vim || !this.vimKeysMapped) return;
+
+        for (const command of CODE_BLOCK_SCROLL_COMMANDS) {
+            vim.unmap(command.vimKeys, "normal");
+        }
+        this.vimKeysMapped = false;
+    }
+
     public updateRibbonButtons(): void {
         if (Platform.isDesktop) return;
 
@@ -99,6 +224,7 @@ export class Commands {
                     return;
             }
 
+            this.plugin.jumpList.recordJump();
             scrollFunc(scroller);
         };
     }
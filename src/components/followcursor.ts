@@ -1,8 +1,10 @@
-import { Editor, MarkdownView, Platform } from "obsidian";
+import { Editor, TFile } from "obsidian";
 import { syntaxTree } from "@codemirror/language";
 
 import type { default as ScrollingPlugin } from "@core/main";
-import { getVimCursor } from "@core/util";
+import type { FollowCursorNodeRule } from "@core/settings";
+import { Animation } from "@core/animation";
+import { clamp } from "@core/util";
 
 interface ScrollInfo {
     top: number;
@@ -10,12 +12,40 @@ interface ScrollInfo {
     height: number;
 }
 
+/**
+ * Settings of a single note, which take precedence over the plugin settings.
+ */
+interface FollowCursorOverrides {
+    enabled?: boolean;
+    radius?: number;
+}
+
+/** Frontmatter key to enable or disable the centered cursor in a note. */
+const FRONTMATTER_ENABLED_KEY = "scrolling-follow-cursor";
+/** Frontmatter key to set the trigger distance in a note. */
+const FRONTMATTER_RADIUS_KEY = "scrolling-follow-cursor-radius";
+
+/**
+ * Types of syntax tree nodes, for which the behavior can be configured.
+ * A node matches if one of its underscore separated names starts with the type.
+ */
+export const FOLLOW_CURSOR_NODE_TYPES = [
+    "hmd-codeblock",
+    "HyperMD-table",
+    "hmd-frontmatter",
+    "math",
+] as const;
+
 export class FollowCursor {
     private readonly plugin: ScrollingPlugin;
 
     private recentMouseUp = false;
+    private recentSearchJump = false;
 
-    private animationFrame = 0;
+    private overrides: FollowCursorOverrides = {};
+
+    private readonly animation = new Animation();
+    private readonly horizontalAnimation = new Animation();
     private scrollLastEvent = 0;
 
     private cachedScrollDOM: HTMLElement | null = null;
@@ -25,28 +55,127 @@ export class FollowCursor {
 
     private readonly MOUSE_UP_TIMEOUT = 100;
 
+    /** Duration of a single frame at 60 Hz in ms. */
+    private readonly FRAME_DURATION = 16.67;
+
     constructor(plugin: ScrollingPlugin) {
         this.plugin = plugin;
 
         plugin.register(() => {
-            window.cancelAnimationFrame(this.animationFrame);
+            this.animation.cancel();
+            this.horizontalAnimation.cancel();
         });
 
         plugin.events.onKeyDown(this.keyDownHandler.bind(this));
         plugin.events.onMouseUp(this.mouseUpHandler.bind(this));
+        plugin.events.onSearchJump(this.searchJumpHandler.bind(this));
         plugin.events.onCursorUpdate(this.cursorUpdateHandler.bind(this));
         plugin.events.onLeafChange(this.leafChangeHandler.bind(this));
         plugin.events.onResize(this.resizeHandler.bind(this));
+        plugin.events.onVisualViewportResize(this.visualViewportResizeHandler.bind(this));
+        plugin.events.onMetadataChange(this.metadataChangeHandler.bind(this));
+        plugin.events.onFileRename(this.updateOverrides.bind(this));
+        plugin.events.onLayoutReady(this.updateOverrides.bind(this));
     }
 
     private leafChangeHandler(): void {
         this.invalidateCache();
+        this.updateOverrides();
+    }
+
+    /**
+     * On metadata change.
+     * Frontmatter of the active note might have changed.
+     */
+    private metadataChangeHandler(file: TFile): void {
+        if (file === this.plugin.app.workspace.getActiveFile()) {
+            this.updateOverrides();
+        }
+    }
+
+    /**
+     * Reads overrides of the active note from frontmatter and folder rules.
+     * Called on leaf change, metadata change and change of folder rules.
+     */
+    public updateOverrides(): void {
+        this.overrides = this.resolveOverrides(this.plugin.app.workspace.getActiveFile());
+    }
+
+    /**
+     * Returns the overrides of a note.
+     * Frontmatter takes precedence over folder rules; the most specific folder rule wins.
+     */
+    private resolveOverrides(file: TFile | null): FollowCursorOverrides {
+        const overrides: FollowCursorOverrides = {};
+        if (!file) return overrides;
+
+        let matchLength = -1;
+        for (const rule of this.plugin.settings.followCursorFolderRules) {
+            const folder = rule.folder.replace(/^\/+|\/+$/g, "");
+            if (folder && !file.path.startsWith(folder + "/")) continue;
+            if (folder.length <= matchLength) continue;
+
+            matchLength = folder.length;
+            overrides.enabled = rule.enabled;
+            overrides.radius = rule.radius ?? undefined;
+        }
+
+        const frontmatter = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+        if (!frontmatter) return overrides;
+
+        const enabled: unknown = frontmatter[FRONTMATTER_ENABLED_KEY];
+        if (typeof enabled === "boolean") {
+            overrides.enabled = enabled;
+        }
+
+        const radius = Number.parseFloat(String(frontmatter[FRONTMATTER_RADIUS_KEY]));
+        if (!isNaN(radius)) {
+            overrides.radius = clamp(radius, 0, 100);
+        }
+
+        return overrides;
+    }
+
+    /**
+     * Returns the overrides of the note shown in the editor.
+     */
+    private getEditorOverrides(editor: Editor): FollowCursorOverrides {
+        const file = this.plugin.events.getEditorFile(editor);
+        if (!file || file === this.plugin.app.workspace.getActiveFile()) return this.overrides;
+
+        return this.resolveOverrides(file);
+    }
+
+    private isEnabled(overrides = this.overrides): boolean {
+        return overrides.enabled ?? this.plugin.settings.followCursorEnabled;
+    }
+
+    /**
+     * Horizontal follow works without vertical follow, but rules disabling follow cursor apply.
+     */
+    private isHorizontalEnabled(overrides = this.overrides): boolean {
+        return overrides.enabled !== false && this.plugin.settings.followCursorHorizontalEnabled;
+    }
+
+    private getRadius(overrides = this.overrides): number {
+        return overrides.radius ?? this.plugin.settings.followCursorRadius;
     }
 
     private resizeHandler(): void {
         this.invalidateCache();
     }
 
+    /**
+     * On visual viewport resize.
+     * The on-screen keyboard might cover the cursor, so scroll it back into view.
+     */
+    private visualViewportResizeHandler(): void {
+        this.invalidateCache();
+
+        const editor = this.plugin.app.workspace.activeEditor?.editor;
+        if (editor) this.invokeScroll(editor, false);
+    }
+
     private invalidateCache(): void {
         this.cachedScrollDOM = null;
         this.cachedScrollDOMRect = null;
@@ -74,6 +203,14 @@ export class FollowCursor {
         window.setTimeout(() => (this.recentMouseUp = false), this.MOUSE_UP_TIMEOUT);
     }
 
+    /**
+     * On search jump.
+     * Marks the following cursor update to center the match.
+     */
+    private searchJumpHandler(): void {
+        this.recentSearchJump = this.plugin.settings.followCursorCenterSearch;
+    }
+
     /**
      * On cursor update.
      * Invokes scroll animation.
@@ -83,6 +220,13 @@ export class FollowCursor {
         docChanged: boolean,
         vimModeChanged: boolean,
     ): void {
+        // Search jumps always center the match, independent of other settings.
+        if (this.recentSearchJump) {
+            this.recentSearchJump = false;
+            this.invokeScroll(editor, docChanged, true);
+            return;
+        }
+
         if (vimModeChanged) return;
 
         // Cancel if mouse up, unless this setting allows it.
@@ -95,36 +239,64 @@ export class FollowCursor {
     }
 
     /**
-     * Checks whether the cursor is inside a table.
+     * Returns the configurable node types surrounding the cursor.
      * Uses the syntax tree provided by codemirror.
      * Requires codemirror/language.
      */
-    private cursorInTable(editor: Editor): boolean {
+    private getCursorNodeTypes(editor: Editor): Set<string> {
         const { from } = editor.cm.state.selection.main;
         const tree = syntaxTree(editor.cm.state);
-        let node = tree.resolve(from, -1);
+        const nodeTypes = new Set<string>();
+
+        // Check both sides, as the cursor might be at the boundary of a node.
+        for (const side of [-1, 1] as const) {
+            let node = tree.resolve(from, side);
 
-        while (node) {
-            if (node.name.startsWith("HyperMD-table")) {
-                return true;
+            while (node) {
+                // Names of HyperMD nodes consist of multiple types joined by underscores.
+                for (const name of node.name.split("_")) {
+                    for (const nodeType of FOLLOW_CURSOR_NODE_TYPES) {
+                        if (name.startsWith(nodeType)) nodeTypes.add(nodeType);
+                    }
+                }
+                node = node.parent;
             }
+        }
 
-            node = node.parent;
+        return nodeTypes;
+    }
+
+    /**
+     * Returns the rule, which applies to the given node types.
+     * Disabling takes precedence; otherwise the first rule with a custom radius wins.
+     * Returns null if all node types use the default behavior.
+     */
+    private resolveNodeRule(nodeTypes: Set<string>): FollowCursorNodeRule | null {
+        let result: FollowCursorNodeRule | null = null;
+
+        for (const nodeType of FOLLOW_CURSOR_NODE_TYPES) {
+            if (!nodeTypes.has(nodeType)) continue;
+
+            const rule = this.plugin.settings.followCursorNodeRules[nodeType];
+            if (!rule || rule.behavior === "default") continue;
+            if (rule.behavior === "disable") return rule;
+
+            result ??= rule;
         }
 
-        return false;
+        return result;
     }
 
     /**
-     * Calculates goal position, distance and scroll steps for scroll animation.
+     * Calculates goal position, distance and duration for scroll animation.
      * Initiates scroll animation if centering scroll is required.
+     * If center is set, the cursor is moved to the anchor regardless of the trigger distance.
      */
-    private invokeScroll(editor: Editor, docChanged: boolean): void {
-        if (!this.plugin.settings.followCursorEnabled) return;
-
-        // Disable in reading view, as this might break cached values.
-        const view = this.plugin.app.workspace.getActiveViewOfType(MarkdownView);
-        if (!view) return;
+    private invokeScroll(editor: Editor, docChanged: boolean, center = false): void {
+        const overrides = this.getEditorOverrides(editor);
+        const isVerticalEnabled = center || this.isEnabled(overrides);
+        const isHorizontalEnabled = this.isHorizontalEnabled(overrides);
+        if (!isVerticalEnabled && !isHorizontalEnabled) return;
 
         const now = performance.now();
         const deltaTime = now - this.scrollLastEvent;
@@ -132,11 +304,14 @@ export class FollowCursor {
 
         if (deltaTime < 10) return;
 
+        if (isHorizontalEnabled) this.invokeHorizontalScroll(editor, docChanged, deltaTime);
+        if (!isVerticalEnabled) return;
+
         // Use requestMeasure to batch all DOM reads and writes
         editor.cm.requestMeasure({
             key: "followcursor",
             read: (_view) => {
-                return this.measureCursorPosition(editor);
+                return this.measureCursorPosition(editor, overrides, center);
             },
             write: (measure, _view) => {
                 if (!measure) return;
@@ -145,41 +320,101 @@ export class FollowCursor {
 
                 if (signedGoalDistance === 0) return;
 
-                // Only cancel animation frame if one is currently running
-                if (this.animationFrame) {
-                    window.cancelAnimationFrame(this.animationFrame);
-                }
-
                 // In tables, many events are emmitted, so skip animations for better performance.
+                let duration = 0;
                 if (deltaTime > 100 && !isTable) {
                     const scrollInfo = editor.getScrollInfo() as ScrollInfo;
-                    const steps = this.calculateSteps(
+                    duration = this.calculateDuration(
                         Math.abs(signedGoalDistance),
                         scrollInfo.height,
                         docChanged,
                     );
-
-                    if (steps > 1 || !Platform.isMobile || getVimCursor(editor) === null) {
-                        this.animate(editor, goal, signedGoalDistance / steps, steps);
-                        return;
-                    }
                 }
 
-                // Performant fallback used for:
+                // Instant scroll is used for:
                 // - Many events (within 100ms)
                 // - Cursor inside a table, because Obsidian emits duplicate view updates
-                // - Single step on mobile in Vim normal mode (Issue #11)
-                this.animate(editor, goal, signedGoalDistance, 1);
+                // - Instant scroll on edit
+                this.animate(editor, goal, duration);
             },
         });
     }
 
+    /**
+     * Scrolls horizontally to keep a number of characters visible beside the cursor.
+     * Only applies if lines do not wrap, as in Vim with sidescrolloff.
+     */
+    private invokeHorizontalScroll(editor: Editor, docChanged: boolean, deltaTime: number): void {
+        editor.cm.requestMeasure({
+            key: "followcursor-horizontal",
+            read: (_view) => {
+                return this.measureHorizontalCursorPosition(editor);
+            },
+            write: (measure, _view) => {
+                if (!measure) return;
+
+                const { signedGoalDistance, width } = measure;
+
+                let duration = 0;
+                if (deltaTime > 100) {
+                    duration = this.calculateDuration(
+                        Math.abs(signedGoalDistance),
+                        width,
+                        docChanged,
+                    );
+                }
+
+                this.animateHorizontal(editor, signedGoalDistance, duration);
+            },
+        });
+    }
+
+    /**
+     * Measures the horizontal cursor position and calculates the scroll distance.
+     * Returns null if no horizontal scroll is required.
+     */
+    private measureHorizontalCursorPosition(
+        editor: Editor,
+    ): { signedGoalDistance: number; width: number } | null {
+        // Lines wrap, so there is nothing to scroll.
+        if (editor.cm.contentDOM.classList.contains("cm-lineWrapping")) return null;
+
+        // Code blocks and tables scroll on their own.
+        const nodeTypes = this.getCursorNodeTypes(editor);
+        if (nodeTypes.has("hmd-codeblock") || nodeTypes.has("HyperMD-table")) return null;
+
+        const scrollDOM = editor.cm.scrollDOM;
+        const scrollDOMRect = this.getCachedScrollDOMRect(scrollDOM);
+        if (!scrollDOMRect || scrollDOMRect.width === 0) return null;
+
+        const cursorCoords = editor.cm.coordsAtPos(editor.cm.state.selection.main.head);
+        if (!cursorCoords) return null;
+
+        // Line numbers stick to the left edge and cover the content.
+        const gutterWidth =
+            scrollDOM.querySelector(".cm-gutters")?.getBoundingClientRect().width ?? 0;
+        const width = scrollDOM.clientWidth - gutterWidth;
+        const cursorLeft = cursorCoords.left - scrollDOMRect.left - gutterWidth;
+
+        const signedGoalDistance = this.calculateColumnsGoalDistance(
+            cursorLeft,
+            cursorLeft + editor.cm.defaultCharacterWidth,
+            editor.cm.defaultCharacterWidth,
+            width,
+        );
+        if (signedGoalDistance === 0) return null;
+
+        return { signedGoalDistance, width };
+    }
+
     /**
      * Measures cursor position and calculates scroll goal.
      * Batches all DOM reads for better performance.
      */
     private measureCursorPosition(
         editor: Editor,
+        overrides: FollowCursorOverrides,
+        center: boolean,
     ): {
         signedGoalDistance: number;
         goal: number;
@@ -189,38 +424,166 @@ export class FollowCursor {
         const activeLineEl = editor.cm.scrollDOM.querySelector(".cm-active.cm-line");
         if (!activeLineEl) return null;
 
-        const isTable = this.cursorInTable(editor);
+        const nodeTypes = this.getCursorNodeTypes(editor);
+        const nodeRule = center ? null : this.resolveNodeRule(nodeTypes);
+        if (nodeRule?.behavior === "disable") return null;
+
+        const isTable = nodeTypes.has("HyperMD-table");
 
         // Use cached scrollDOM rect if valid
         const scrollDOMRect = this.getCachedScrollDOMRect(editor.cm.scrollDOM);
         if (!scrollDOMRect) return null;
 
-        let cursorRelativeTop: number;
+        // Editor is hidden, e.g., in reading view.
+        if (scrollDOMRect.height === 0) return null;
+
+        let cursorTop: number;
+        let cursorBottom: number;
 
         if (isTable) {
             // Works well with tables
             const activeLineRect = activeLineEl.getBoundingClientRect();
-            cursorRelativeTop = activeLineRect.top;
+            cursorTop = activeLineRect.top;
+            cursorBottom = activeLineRect.bottom;
         } else {
             // Works well with wrapped lines and images
             const cursorCoord = editor.getCursor("head");
             const lineStartOffset = editor.cm.state.doc.line(cursorCoord.line + 1).from;
             const cursorOffset = lineStartOffset + cursorCoord.ch;
 
+            // Coordinates of the visual line, which differs from the document line if wrapped.
             const cursorCoords = editor.cm.coordsAtPos(cursorOffset);
-            cursorRelativeTop = cursorCoords?.top || 0;
+            cursorTop = cursorCoords?.top || 0;
+            cursorBottom = cursorCoords?.bottom || cursorTop + editor.cm.defaultLineHeight;
         }
 
         // Vertical offset of editor viewport, accounting for vertical splits.
-        cursorRelativeTop -= scrollDOMRect.top - editor.cm.defaultLineHeight;
+        cursorTop -= scrollDOMRect.top;
+        cursorBottom -= scrollDOMRect.top;
+
+        const scrollInfo = { ...(editor.getScrollInfo() as ScrollInfo) };
+        scrollInfo.height = this.getVisibleHeight(scrollDOMRect, scrollInfo.height);
+
+        // Keep other cursors visible as well, unless they do not fit next to the primary one.
+        const selection = editor.cm.state.selection;
+        let multiCursorGoalDistance: number | null = null;
+        if (
+            !center &&
+            this.plugin.settings.followCursorMultiCursorEnabled &&
+            selection.ranges.length > 1
+        ) {
+            multiCursorGoalDistance = this.calculateMultiCursorGoalDistance(
+                this.measureSelectionRanges(editor, scrollDOMRect),
+                selection.mainIndex,
+                scrollInfo.height,
+            );
+        }
 
-        const scrollInfo = editor.getScrollInfo() as ScrollInfo;
-        const signedGoalDistance = this.calculateGoalDistance(cursorRelativeTop, scrollInfo);
+        let signedGoalDistance: number;
+        if (multiCursorGoalDistance !== null) {
+            signedGoalDistance = multiCursorGoalDistance;
+        } else if (center) {
+            // Move the cursor exactly to the anchor, like zz in Vim.
+            const cursorRelativeTop = cursorTop + editor.cm.defaultLineHeight;
+            signedGoalDistance = this.calculateGoalDistance(cursorRelativeTop, scrollInfo, 0);
+        } else if (nodeRule?.behavior === "radius") {
+            // Rules with a custom radius apply in both trigger modes.
+            const cursorRelativeTop = cursorTop + editor.cm.defaultLineHeight;
+            signedGoalDistance = this.calculateGoalDistance(
+                cursorRelativeTop,
+                scrollInfo,
+                nodeRule.radius,
+            );
+        } else if (this.plugin.settings.followCursorTriggerMode === "lines") {
+            signedGoalDistance = this.calculateLinesGoalDistance(
+                cursorTop,
+                cursorBottom,
+                editor.cm.defaultLineHeight,
+                scrollInfo,
+            );
+        } else {
+            const cursorRelativeTop = cursorTop + editor.cm.defaultLineHeight;
+            signedGoalDistance = this.calculateGoalDistance(
+                cursorRelativeTop,
+                scrollInfo,
+                this.getRadius(overrides),
+            );
+        }
         const goal = scrollInfo.top + signedGoalDistance;
 
         return { signedGoalDistance, goal, isTable };
     }
 
+    /**
+     * Returns the vertical extent of the visual line of each selection head in the scroller.
+     * Uses the line blocks of the editor outside the viewport. These may span a whole wrapped
+     * paragraph or an image, so they are clamped to a single line.
+     */
+    private measureSelectionRanges(
+        editor: Editor,
+        scrollDOMRect: DOMRect,
+    ): { top: number; bottom: number }[] {
+        const documentTop = editor.cm.documentTop - scrollDOMRect.top;
+        const lineHeight = editor.cm.defaultLineHeight;
+
+        return editor.cm.state.selection.ranges.map((range) => {
+            const coords = editor.cm.coordsAtPos(range.head);
+            if (coords) {
+                return {
+                    top: coords.top - scrollDOMRect.top,
+                    bottom: coords.bottom - scrollDOMRect.top,
+                };
+            }
+
+            const block = editor.cm.lineBlockAt(range.head);
+            const top = documentTop + block.top;
+            return { top, bottom: top + Math.min(block.height, lineHeight) };
+        });
+    }
+
+    /**
+     * Returns the signed distance to the goal position, which keeps as many cursors visible
+     * as possible, always including the primary cursor.
+     * Expects the cursors sorted from top to bottom, like the ranges of a selection.
+     * Returns null if no other cursor fits on the screen together with the primary cursor.
+     */
+    private calculateMultiCursorGoalDistance(
+        cursors: { top: number; bottom: number }[],
+        primaryIndex: number,
+        height: number,
+    ): number | null {
+        let bestStart = primaryIndex;
+        let bestEnd = primaryIndex;
+
+        // Sliding window over all cursors, which fit on the screen together.
+        let start = 0;
+        for (let end = 0; end < cursors.length; end++) {
+            while (start < end && cursors[end].bottom - cursors[start].top > height) start++;
+
+            if (start > primaryIndex || end < primaryIndex) continue;
+            if (end - start > bestEnd - bestStart) {
+                bestStart = start;
+                bestEnd = end;
+            }
+        }
+
+        if (bestStart === bestEnd) return null;
+
+        let signedGoalDistance: number;
+        if (cursors[bestStart].top < 0) {
+            signedGoalDistance = cursors[bestStart].top;
+        } else if (cursors[bestEnd].bottom > height) {
+            signedGoalDistance = cursors[bestEnd].bottom - height;
+        } else {
+            return 0;
+        }
+
+        // Can't scroll by fractions.
+        if (Math.abs(signedGoalDistance) < 1) return 0;
+
+        return signedGoalDistance;
+    }
+
     /**
      * Returns cached scrollDOM rect or creates new one if cache is stale.
      */
@@ -245,34 +608,136 @@ export class FollowCursor {
     }
 
     /**
-     * Scrolls to the goal over a specified number of frames.
+     * Returns the height of the part of the scroller, which is not covered,
+     * e.g., by the on-screen keyboard on mobile.
+     */
+    private getVisibleHeight(scrollDOMRect: DOMRect, height: number): number {
+        const viewport = window.visualViewport;
+        if (!viewport) return height;
+
+        const visibleBottom = Math.min(scrollDOMRect.bottom, viewport.offsetTop + viewport.height);
+        return clamp(visibleBottom - scrollDOMRect.top, 0, height);
+    }
+
+    /**
+     * Scrolls from the current position to the goal within the specified duration in ms.
      */
-    private animate(editor: Editor, goal: number, stepSize: number, step: number): void {
-        if (step <= 0) return;
+    private animate(editor: Editor, goal: number, duration: number): void {
+        const start = editor.getScrollInfo().top;
+        const change = goal - start;
+
+        this.animation.start(duration, this.plugin.settings.animationEasing, (progress) => {
+            editor.scrollTo(null, start + change * progress);
+        });
+    }
 
-        editor.scrollTo(null, goal - stepSize * (step - 1));
-        this.animationFrame = window.requestAnimationFrame(() =>
-            this.animate(editor, goal, stepSize, step - 1),
+    /**
+     * Scrolls horizontally by the distance within the specified duration in ms.
+     */
+    private animateHorizontal(editor: Editor, distance: number, duration: number): void {
+        const start = editor.getScrollInfo().left;
+
+        this.horizontalAnimation.start(
+            duration,
+            this.plugin.settings.animationEasing,
+            (progress) => {
+                editor.scrollTo(Math.max(0, start + distance * progress), null);
+            },
         );
     }
 
+    /**
+     * Returns the position on the screen, where the cursor should be kept.
+     */
+    private getAnchor(scrollInfo: ScrollInfo): number {
+        return (scrollInfo.height * this.plugin.settings.followCursorAnchor) / 100;
+    }
+
     /**
      * Returns the signed distance to the goal position relative on the screen
-     * based on the current cursor position and a valid radius from the center.
+     * based on the current cursor position and a valid radius from the anchor.
+     * The radius is scaled separately above and below the anchor,
+     * so that 100% always covers the entire screen.
      */
-    private calculateGoalDistance(cursorRelativeTop: number, scrollInfo: ScrollInfo) {
-        const radiusPercent = this.plugin.settings.followCursorRadius;
+    private calculateGoalDistance(
+        cursorRelativeTop: number,
+        scrollInfo: ScrollInfo,
+        radiusPercent = this.getRadius(),
+    ) {
+        const anchor = this.getAnchor(scrollInfo);
+        const radiusAbove = (anchor * radiusPercent) / 100;
+        const radiusBelow = ((scrollInfo.height - anchor) * radiusPercent) / 100;
 
-        let radius = ((scrollInfo.height / 2) * radiusPercent) / 100;
+        const anchorOffset = cursorRelativeTop - anchor;
 
-        const center = scrollInfo.height / 2;
-        const centerOffset = cursorRelativeTop - center;
+        let signedGoalDistance: number;
+        if (anchorOffset < -radiusAbove) {
+            signedGoalDistance = anchorOffset + radiusAbove;
+        } else if (anchorOffset > radiusBelow) {
+            signedGoalDistance = anchorOffset - radiusBelow;
+        } else {
+            return 0;
+        }
+
+        // Can't scroll by fractions.
+        if (Math.abs(signedGoalDistance) < 1) return 0;
+
+        return signedGoalDistance;
+    }
+
+    /**
+     * Returns the signed distance to the goal position relative on the screen
+     * based on the current cursor position and a minimum number of lines,
+     * that should stay visible above and below the cursor.
+     * Moves the cursor to the anchor if the viewport is too small to fit all lines.
+     */
+    private calculateLinesGoalDistance(
+        cursorTop: number,
+        cursorBottom: number,
+        lineHeight: number,
+        scrollInfo: ScrollInfo,
+    ): number {
+        const marginTop = this.plugin.settings.followCursorLinesAbove * lineHeight;
+        const marginBottom = this.plugin.settings.followCursorLinesBelow * lineHeight;
+
+        let signedGoalDistance: number;
+        if (marginTop + marginBottom + cursorBottom - cursorTop > scrollInfo.height) {
+            signedGoalDistance = (cursorTop + cursorBottom) / 2 - this.getAnchor(scrollInfo);
+        } else if (cursorTop < marginTop) {
+            signedGoalDistance = cursorTop - marginTop;
+        } else if (cursorBottom > scrollInfo.height - marginBottom) {
+            signedGoalDistance = cursorBottom - scrollInfo.height + marginBottom;
+        } else {
+            return 0;
+        }
+
+        // Can't scroll by fractions.
+        if (Math.abs(signedGoalDistance) < 1) return 0;
+
+        return signedGoalDistance;
+    }
+
+    /**
+     * Returns the signed horizontal distance to the goal position
+     * based on the current cursor position and a minimum number of characters,
+     * that should stay visible left and right of the cursor.
+     * Moves the cursor to the center if the viewport is too narrow to fit all characters.
+     */
+    private calculateColumnsGoalDistance(
+        cursorLeft: number,
+        cursorRight: number,
+        charWidth: number,
+        width: number,
+    ): number {
+        const margin = this.plugin.settings.followCursorSideScrollOff * charWidth;
 
         let signedGoalDistance: number;
-        if (centerOffset < -radius) {
-            signedGoalDistance = centerOffset + radius;
-        } else if (centerOffset > radius) {
-            signedGoalDistance = centerOffset - radius;
+        if (2 * margin + cursorRight - cursorLeft > width) {
+            signedGoalDistance = (cursorLeft + cursorRight) / 2 - width / 2;
+        } else if (cursorLeft < margin) {
+            signedGoalDistance = cursorLeft - margin;
+        } else if (cursorRight > width - margin) {
+            signedGoalDistance = cursorRight - width + margin;
         } else {
             return 0;
         }
@@ -284,25 +749,25 @@ export class FollowCursor {
     }
 
     /**
-     * Returns number of frames for scroll animation.
-     * Returns reduced number of frames when scrolling further than client height.
-     * Returns 1 step for instant scroll on edit.
+     * Returns the duration of the scroll animation in ms.
+     * Returns reduced duration when scrolling further than client size.
+     * Returns 0 for instant scroll on edit.
      */
-    private calculateSteps(
+    private calculateDuration(
         goalDistance: number,
-        scrollerHeight: number,
+        scrollerSize: number,
         docChanged: boolean,
     ): number {
-        if (docChanged && this.plugin.settings.followCursorInstantEditScroll) return 1;
+        if (docChanged && this.plugin.settings.followCursorInstantEditScroll) return 0;
 
-        const SMOOTHNESS_MULTIPLIER = 0.16;
+        const SMOOTHNESS_MULTIPLIER = 0.16 * this.FRAME_DURATION;
         const smoothness = this.plugin.settings.followCursorSmoothness;
-        let steps = Math.max(1, Math.ceil(SMOOTHNESS_MULTIPLIER * smoothness));
+        const duration = SMOOTHNESS_MULTIPLIER * smoothness;
 
-        if (goalDistance > scrollerHeight) {
-            return Math.ceil(Math.sqrt(steps));
+        if (goalDistance > scrollerSize) {
+            return Math.sqrt(duration * this.FRAME_DURATION);
         }
 
-        return steps;
+        return duration;
     }
 }
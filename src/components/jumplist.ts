@@ -0,0 +1,283 @@
+import { Debouncer, Editor, FileView, TAbstractFile, WorkspaceLeaf, debounce } from "obsidian";
+
+import type { default as ScrollingPlugin } from "@core/main";
+import type { CapturedPosition } from "@components/restorescroll";
+
+/**
+ * Position in a file, which can be jumped back to.
+ * The position is completed with anchor and code block offsets, once it is recorded.
+ */
+interface Jump extends CapturedPosition {
+    path: string;
+}
+
+/**
+ * Records the position before large jumps, e.g. when following links, searching
+ * or scrolling to the top or bottom. Commands move back and forward through the
+ * recorded positions across files, like the jump list of Vim.
+ * Positions are captured and restored by RestoreScroll.
+ */
+export class JumpList {
+    private readonly plugin: ScrollingPlugin;
+
+    private jumps: Jump[] = [];
+
+    // Position in the jump list while moving back and forward.
+    // Equal to the length of the list otherwise.
+    private index = 0;
+
+    // Latest position of the active view, which becomes a jump once the view jumps away.
+    private current: Jump | null = null;
+    private currentLeaf: WorkspaceLeaf | null = null;
+
+    // Position before a jump, which is recorded once the destination is far enough away.
+    private origin: Jump | null = null;
+
+    private isNavigating = false;
+
+    private readonly updateCurrentDebounced: Debouncer<[], void>;
+
+    private readonly MAX_JUMPS = 100;
+    private readonly UPDATE_INTERVAL = 200;
+
+    /** Minimum distance of a jump in lines. */
+    private readonly MIN_JUMP_LINES = 10;
+    /** Minimum distance of a jump in pixels, if lines are unknown, e.g. in reading mode. */
+    private readonly MIN_JUMP_PIXELS = 300;
+
+    constructor(plugin: ScrollingPlugin) {
+        this.plugin = plugin;
+
+        this.updateCurrentDebounced = debounce(
+            this.updateCurrent.bind(this),
+            this.UPDATE_INTERVAL,
+            true,
+        );
+
+        plugin.addCommand({
+            id: "jump-back",
+            name: "Jump back",
+            callback: () => void this.back(),
+        });
+
+        plugin.addCommand({
+            id: "jump-forward",
+            name: "Jump forward",
+            callback: () => void this.forward(),
+        });
+
+        plugin.events.onLinkOpen(this.recordJump.bind(this));
+        plugin.events.onFileOpen(this.fileOpenHandler.bind(this));
+        plugin.events.onFileRename(this.fileRenameHandler.bind(this));
+        plugin.events.onSearchJump(this.searchJumpHandler.bind(this));
+        plugin.events.onCursorUpdate(this.cursorUpdateHandler.bind(this));
+        plugin.events.onScroll(this.scrollHandler.bind(this));
+    }
+
+    /**
+     * Records the position of the active view, if the view moves far away.
+     * Called right before scrolling far away, e.g. to the top or bottom.
+     */
+    public recordJump(): void {
+        this.origin = this.captureActiveView();
+        this.updateCurrentDebounced();
+    }
+
+    /**
+     * On file open.
+     * Opening another file in the same tab is a jump, switching tabs is not.
+     */
+    private fileOpenHandler(): void {
+        const leaf = this.plugin.app.workspace.getActiveFileView()?.leaf ?? null;
+        if (this.current && leaf && leaf === this.currentLeaf) {
+            this.push(this.current);
+        }
+
+        this.updateCurrentDebounced();
+    }
+
+    /**
+     * On file rename.
+     * Keeps jumps to the renamed file.
+     */
+    private fileRenameHandler(file: TAbstractFile, oldPath: string): void {
+        for (const jump of this.jumps) {
+            if (jump.path === oldPath) jump.path = file.path;
+        }
+        if (this.current?.path === oldPath) this.current.path = file.path;
+    }
+
+    /**
+     * On search jump.
+     * Records the position before the search, as the cursor has already moved.
+     */
+    private searchJumpHandler(editor: Editor): void {
+        const current = this.current;
+        const cursor = current?.state.cursor;
+        if (!cursor || this.plugin.events.getEditorFile(editor)?.path !== current.path) return;
+
+        if (Math.abs(editor.getCursor().line - cursor.from.line) >= this.MIN_JUMP_LINES) {
+            this.push(current);
+        }
+    }
+
+    /**
+     * On cursor update.
+     */
+    private cursorUpdateHandler(): void {
+        this.updateCurrentDebounced();
+    }
+
+    /**
+     * On scroll event.
+     */
+    private scrollHandler(): void {
+        this.updateCurrentDebounced();
+    }
+
+    /**
+     * Captures the position of the active view, which becomes a jump once the view jumps away.
+     * Records the position before a jump, once the view arrived far enough away.
+     */
+    private updateCurrent(): void {
+        const view = this.plugin.app.workspace.getActiveFileView();
+        if (!view || view.leaf.working) return;
+
+        const jump = this.capture(view);
+        if (!jump) return;
+
+        this.current = jump;
+        this.currentLeaf = view.leaf;
+
+        if (this.origin) {
+            if (this.isFar(this.origin, jump)) this.push(this.origin);
+            this.origin = null;
+        }
+    }
+
+    private captureActiveView(): Jump | null {
+        const view = this.plugin.app.workspace.getActiveFileView();
+        return view ? this.capture(view) : null;
+    }
+
+    private capture(view: FileView): Jump | null {
+        if (!view.file) return null;
+
+        const position = this.plugin.restoreScroll.capturePosition(view);
+        return position ? { path: view.file.path, ...position } : null;
+    }
+
+    /**
+     * Adds a jump to the end of the list.
+     * Discards the jumps ahead, if the user moved back before.
+     */
+    private push(jump: Jump): void {
+        if (this.isNavigating) return;
+
+        this.jumps.length = Math.min(this.index, this.jumps.length);
+        this.index = this.jumps.length;
+
+        // Do not record the same position twice, e.g. for a link that also opens a file.
+        const last = this.jumps[this.jumps.length - 1];
+        if (last && !this.isFar(last, jump)) return;
+
+        // Anchors are only created for recorded jumps, as the current position updates often.
+        if (jump.editorState) {
+            const file = this.plugin.app.vault.getFileByPath(jump.path);
+            jump.state = this.plugin.restoreScroll.completePosition(jump, file);
+            delete jump.editorState;
+        }
+
+        this.jumps.push(jump);
+        if (this.jumps.length > this.MAX_JUMPS) this.jumps.shift();
+
+        this.index = this.jumps.length;
+    }
+
+    /**
+     * Returns true, if the positions are in different files or far apart.
+     */
+    private isFar(a: Jump, b: Jump): boolean {
+        if (a.path !== b.path) return true;
+
+        if (a.state.scroll !== undefined && b.state.scroll !== undefined) {
+            const cursorDistance = Math.abs(
+                (a.state.cursor?.from.line ?? 0) - (b.state.cursor?.from.line ?? 0),
+            );
+            const scrollDistance = Math.abs(a.state.scroll - b.state.scroll);
+            return Math.max(cursorDistance, scrollDistance) >= this.MIN_JUMP_LINES;
+        }
+
+        const distance = Math.abs((a.state.scrollTop ?? 0) - (b.state.scrollTop ?? 0));
+        return distance >= this.MIN_JUMP_PIXELS;
+    }
+
+    /**
+     * Moves to the previous position in the jump list.
+     */
+    private async back(): Promise<void> {
+        // Record the current position first, so that jumping forward returns to it.
+        if (this.index >= this.jumps.length) {
+            const jump = this.captureActiveView();
+            if (jump) {
+                this.push(jump);
+                this.index = this.jumps.length - 1;
+            }
+        }
+
+        if (this.index <= 0) return;
+
+        this.index--;
+        if (!(await this.navigate(this.jumps[this.index]))) await this.back();
+    }
+
+    /**
+     * Moves to the next position in the jump list.
+     */
+    private async forward(): Promise<void> {
+        if (this.index >= this.jumps.length - 1) return;
+
+        this.index++;
+        if (!(await this.navigate(this.jumps[this.index]))) {
+            this.index--;
+            await this.forward();
+        }
+    }
+
+    /**
+     * Shows the position of a jump.
+     * Opens the file in the active tab, if another file is shown.
+     * Removes the jump and returns false, if the file does not exist anymore.
+     */
+    private async navigate(jump: Jump): Promise<boolean> {
+        const workspace = this.plugin.app.workspace;
+        const view = workspace.getActiveFileView();
+
+        this.isNavigating = true;
+        try {
+            if (view?.file?.path === jump.path) {
+                this.plugin.restoreScroll.applyState(view, jump.state, true);
+            } else {
+                const file = this.plugin.app.vault.getFileByPath(jump.path);
+                if (!file) {
+                    this.jumps.splice(this.index, 1);
+                    return false;
+                }
+
+                await this.plugin.restoreScroll.openFileState(
+                    workspace.getLeaf(false),
+                    file,
+                    jump.state,
+                );
+            }
+        } finally {
+            this.isNavigating = false;
+        }
+
+        this.current = jump;
+        this.currentLeaf = workspace.getActiveFileView()?.leaf ?? null;
+        this.origin = null;
+
+        return true;
+    }
+}
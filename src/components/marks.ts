@@ -0,0 +1,372 @@
+import {
+    App,
+    FuzzySuggestModal,
+    Notice,
+    SuggestModal,
+    TAbstractFile,
+    normalizePath,
+} from "obsidian";
+
+import type { default as ScrollingPlugin } from "@core/main";
+import type { EphemeralState } from "@components/restorescroll";
+
+/**
+ * Position stored under a name.
+ * Names starting with a lowercase letter belong to a single file, all other names are global.
+ */
+interface Mark {
+    name: string;
+    path: string;
+    state: EphemeralState;
+}
+
+/**
+ * Content of the marks file.
+ */
+interface MarksFile {
+    version: number;
+    marks: Mark[];
+}
+
+const MARKS_FILE_VERSION = 1;
+const MARKS_FILE_NAME = "scrolling-marks.json";
+
+/**
+ * Returns true, if the mark only exists in its file, like lowercase marks in Vim.
+ */
+export function isFileMark(name: string): boolean {
+    return name[0] !== name[0].toUpperCase();
+}
+
+/**
+ * Asks for the name of a new mark.
+ * Suggests existing marks to overwrite them.
+ */
+class SetMarkModal extends SuggestModal<string> {
+    private readonly names: string[];
+    private readonly onChoose: (name: string) => void;
+
+    constructor(app: App, names: string[], onChoose: (name: string) => void) {
+        super(app);
+        this.names = names;
+        this.onChoose = onChoose;
+        this.setPlaceholder("Name of the mark, lowercase names belong to this file");
+    }
+
+    getSuggestions(query: string): string[] {
+        const name = query.trim();
+        const names = this.names.filter((existing) => existing.startsWith(name));
+        if (name && !names.includes(name)) names.unshift(name);
+        return names;
+    }
+
+    renderSuggestion(name: string, el: HTMLElement): void {
+        el.createDiv({ text: name });
+        el.createEl("small", {
+            text: isFileMark(name) ? "Mark in this file" : "Mark across all files",
+        });
+    }
+
+    onChooseSuggestion(name: string): void {
+        this.onChoose(name);
+    }
+}
+
+/**
+ * Lets the user pick one of the given marks.
+ */
+class ChooseMarkModal extends FuzzySuggestModal<Mark> {
+    private readonly marks: Mark[];
+    private readonly onChoose: (mark: Mark) => void;
+
+    constructor(app: App, marks: Mark[], onChoose: (mark: Mark) => void) {
+        super(app);
+        this.marks = marks;
+        this.onChoose = onChoose;
+        this.setPlaceholder("Name of the mark");
+        this.emptyStateText = "No marks";
+    }
+
+    getItems(): Mark[] {
+        return this.marks;
+    }
+
+    getItemText(mark: Mark): string {
+        return `${mark.name}: ${mark.path}`;
+    }
+
+    onChooseItem(mark: Mark): void {
+        this.onChoose(mark);
+    }
+}
+
+/**
+ * Named scroll and cursor positions like marks in Vim.
+ * Marks are stored in a file next to the scroll positions file of RestoreScroll,
+ * which also captures and restores the positions.
+ * Like the positions, marks are only stored on disk if storing positions in a file is enabled.
+ */
+export class Marks {
+    private readonly plugin: ScrollingPlugin;
+
+    private marks: Mark[] = [];
+
+    // Resolved before RestoreScroll falls back to the default path for a missing states file.
+    // Only changes when the user moves the scroll positions file.
+    private filePath: string;
+
+    // Modification time after the last read or write, to detect changes by sync.
+    private fileMtime = 0;
+
+    private pendingWrite: Promise<void> = Promise.resolve();
+
+    private readonly TEMP_SUFFIX = ".tmp";
+
+    constructor(plugin: ScrollingPlugin) {
+        this.plugin = plugin;
+        this.filePath = this.getMarksFilePath(plugin.settings.restoreScrollFilePath);
+
+        plugin.addCommand({
+            id: "set-mark",
+            name: "Set mark",
+            checkCallback: (checking) => {
+                const view = plugin.app.workspace.getActiveFileView();
+                if (!view?.file) return false;
+
+                if (!checking) {
+                    const names = this.getMarks(view.file.path).map((mark) => mark.name);
+                    new SetMarkModal(plugin.app, names, (name) => this.setMark(name)).open();
+                }
+                return true;
+            },
+        });
+
+        plugin.addCommand({
+            id: "jump-to-mark",
+            name: "Jump to mark",
+            callback: () => {
+                new ChooseMarkModal(plugin.app, this.getActiveMarks(), (mark) => {
+                    void this.jumpToMark(mark);
+                }).open();
+            },
+        });
+
+        plugin.addCommand({
+            id: "delete-mark",
+            name: "Delete mark",
+            callback: () => {
+                new ChooseMarkModal(plugin.app, this.getActiveMarks(), (mark) => {
+                    this.marks = this.marks.filter((other) => other !== mark);
+                    void this.writeMarksFile();
+                }).open();
+            },
+        });
+
+        plugin.events.onFileDelete(this.fileDeleteHandler.bind(this));
+        plugin.events.onFileRename(this.fileRenameHandler.bind(this));
+        plugin.events.onFileModify(this.fileModifyHandler.bind(this));
+    }
+
+    /**
+     * Loads the marks file on disk asynchronously.
+     * Falls back to the temporary file of an interrupted write.
+     */
+    public async loadMarksFile(): Promise<void> {
+        const adapter = this.plugin.app.vault.adapter;
+
+        let corrupted = false;
+        for (const path of [this.filePath, this.filePath + this.TEMP_SUFFIX]) {
+            if (!(await adapter.exists(path))) continue;
+
+            try {
+                const file = JSON.parse(await adapter.read(path)) as MarksFile;
+                if (!Array.isArray(file.marks)) {
+                    throw new Error("Marks file does not contain marks.");
+                }
+                this.marks = file.marks;
+            } catch (error) {
+                console.error(`Failed to load marks file ${path}:`, error);
+                corrupted = true;
+                continue;
+            }
+
+            if (path === this.filePath) {
+                this.fileMtime = (await adapter.stat(path))?.mtime ?? 0;
+            }
+            return;
+        }
+
+        if (corrupted) new Notice("Failed to load marks file.");
+    }
+
+    /**
+     * Moves the marks file next to the scroll positions file, after it was moved.
+     * Used in the settings menu.
+     */
+    public async moveMarksFile(): Promise<void> {
+        if (!this.plugin.settings.restoreScrollFileEnabled) return;
+
+        const oldPath = this.filePath;
+        const newPath = this.getMarksFilePath(this.plugin.settings.restoreScrollFilePath);
+        if (oldPath === newPath) return;
+
+        this.filePath = newPath;
+        await this.writeMarksFile();
+
+        const adapter = this.plugin.app.vault.adapter;
+        if (await adapter.exists(oldPath)) await adapter.remove(oldPath);
+    }
+
+    /**
+     * Stores the position of the active view under the name.
+     * Replaces an existing mark with the same name.
+     */
+    private setMark(name: string): void {
+        const view = this.plugin.app.workspace.getActiveFileView();
+        if (!view?.file) return;
+
+        const state = this.plugin.restoreScroll.captureState(view);
+        if (!state) return;
+
+        const path = view.file.path;
+        this.marks = this.marks.filter(
+            (mark) => mark.name !== name || (isFileMark(name) && mark.path !== path),
+        );
+        this.marks.push({ name, path, state });
+
+        new Notice(`Set mark ${name}`);
+        void this.writeMarksFile();
+    }
+
+    /**
+     * Shows the position of the mark.
+     * Opens the file of global marks in the active tab and records the jump.
+     * Shows a notice instead of failing, as it is called from a modal.
+     */
+    private async jumpToMark(mark: Mark): Promise<void> {
+        const workspace = this.plugin.app.workspace;
+        const view = workspace.getActiveFileView();
+
+        const file = this.plugin.app.vault.getFileByPath(mark.path);
+        if (!file) {
+            new Notice(`File of mark ${mark.name} not found.`);
+            return;
+        }
+
+        // Only record jumps, which actually happen.
+        this.plugin.jumpList.recordJump();
+
+        if (view?.file?.path === file.path) {
+            this.plugin.restoreScroll.applyState(view, mark.state, true);
+            return;
+        }
+
+        try {
+            const leaf = workspace.getLeaf(false);
+            await this.plugin.restoreScroll.openFileState(leaf, file, mark.state);
+        } catch (error) {
+            new Notice(`Failed to jump to mark ${mark.name}.`);
+            console.error(`Failed to jump to mark ${mark.name}:`, error);
+        }
+    }
+
+    /**
+     * Returns the marks of a file and all global marks.
+     */
+    private getMarks(path: string | undefined): Mark[] {
+        return this.marks.filter((mark) => !isFileMark(mark.name) || mark.path === path);
+    }
+
+    private getActiveMarks(): Mark[] {
+        return this.getMarks(this.plugin.app.workspace.getActiveFileView()?.file?.path);
+    }
+
+    /**
+     * On file deletion.
+     * Removes all marks of the file.
+     */
+    private fileDeleteHandler(file: TAbstractFile): void {
+        const numMarks = this.marks.length;
+        this.marks = this.marks.filter((mark) => mark.path !== file.path);
+
+        if (this.marks.length !== numMarks) void this.writeMarksFile();
+    }
+
+    /**
+     * On file rename.
+     * Moves all marks of the file.
+     */
+    private fileRenameHandler(file: TAbstractFile, old: string): void {
+        const marks = this.marks.filter((mark) => mark.path === old);
+        for (const mark of marks) {
+            mark.path = file.path;
+        }
+
+        if (marks.length) void this.writeMarksFile();
+    }
+
+    /**
+     * On file modification.
+     * Reloads the marks file, if it is stored inside the vault and was synced from another device.
+     */
+    private fileModifyHandler(file: TAbstractFile): void {
+        // Marks, which were set while disk storage was off, only exist in memory.
+        if (!this.plugin.settings.restoreScrollFileEnabled) return;
+        if (file.path !== this.filePath) return;
+
+        this.pendingWrite = this.pendingWrite.then(() => this.reloadMarksFile());
+    }
+
+    /**
+     * Returns the path of the marks file in the directory of the scroll positions file.
+     */
+    private getMarksFilePath(statesFilePath: string): string {
+        const lastSlashIndex = statesFilePath.lastIndexOf("/");
+        if (lastSlashIndex === -1) return MARKS_FILE_NAME;
+
+        return normalizePath(statesFilePath.substring(0, lastSlashIndex) + "/" + MARKS_FILE_NAME);
+    }
+
+    /**
+     * Reloads the marks file, if it was modified since the last read or write.
+     */
+    private async reloadMarksFile(): Promise<void> {
+        const stat = await this.plugin.app.vault.adapter.stat(this.filePath);
+        if (!stat || stat.mtime === this.fileMtime) return;
+
+        await this.loadMarksFile();
+    }
+
+    /**
+     * Writes the marks file on disk asynchronously.
+     * Waits for the previous write to finish.
+     */
+    private writeMarksFile(): Promise<void> {
+        this.pendingWrite = this.pendingWrite.then(() => this.replaceMarksFile());
+        return this.pendingWrite;
+    }
+
+    /**
+     * Writes the marks to a temporary file, which replaces the marks file afterwards.
+     * An interrupted write leaves either the old or the new file behind.
+     * Keeps the marks in memory only, while the positions are not stored in a file.
+     */
+    private async replaceMarksFile(): Promise<void> {
+        if (!this.plugin.settings.restoreScrollFileEnabled) return;
+
+        const filePath = this.filePath;
+        const tempPath = filePath + this.TEMP_SUFFIX;
+        const adapter = this.plugin.app.vault.adapter;
+        const file: MarksFile = { version: MARKS_FILE_VERSION, marks: this.marks };
+
+        try {
+            await adapter.write(tempPath, JSON.stringify(file));
+            if (await adapter.exists(filePath)) await adapter.remove(filePath);
+            await adapter.rename(tempPath, filePath);
+            this.fileMtime = (await adapter.stat(filePath))?.mtime ?? 0;
+        } catch (error) {
+            new Notice("Failed to write marks file.");
+            console.error("Failed to write marks file:", error);
+        }
+    }
+}
@@ -2,10 +2,9 @@ import { Platform } from "obsidian";
 
 import type { default as ScrollingPlugin } from "@core/main";
 import { clamp } from "@core/util";
+import { getEasing } from "@core/animation";
 
-function easeOut(t: number): number {
-    return 1 - (1 - t) ** 2;
-}
+const easeOut = getEasing("ease-out");
 
 function mean(data: number[]): number {
     return data.reduce((a, b) => a + b, 0) / data.length;
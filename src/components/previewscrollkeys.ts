@@ -1,6 +1,7 @@
 import { MarkdownView, Platform } from "obsidian";
 
 import type { default as ScrollingPlugin } from "@core/main";
+import { Animation } from "@core/animation";
 
 function getLineHeight() {
     const cssFontSize = activeDocument.body.getCssPropertyValue("--font-text-size");
@@ -15,11 +16,18 @@ export class PreviewScrollKeys {
     private scroller: Element | null = null;
 
     private lastKeyPress = 0;
-    private animationFrame: number;
+    private readonly animation = new Animation();
+
+    /** Duration of line and half page scroll animations in ms. */
+    private readonly ANIMATION_DURATION = 80;
 
     constructor(plugin: ScrollingPlugin) {
         this.plugin = plugin;
 
+        plugin.register(() => {
+            this.animation.cancel();
+        });
+
         plugin.events.onKeyUp(this.keyUpHandler.bind(this));
         plugin.events.onKeyDown(this.keyDownHandler.bind(this));
     }
@@ -93,9 +101,7 @@ export class PreviewScrollKeys {
         const change = getLineHeight() * direction * deltaTimeNormalization;
         this.goal = this.scroller.scrollTop + change;
 
-        const steps = 5;
-        window.cancelAnimationFrame(this.animationFrame);
-        this.animateScrollLine(this.goal, change / steps, steps);
+        this.animateScroll(this.goal);
     }
 
     private scrollHalfPage(direction: -1 | 1) {
@@ -104,19 +110,22 @@ export class PreviewScrollKeys {
         let change = (this.scroller.clientHeight * direction) / 2;
         let goal = this.scroller.scrollTop + change
 
-        const steps = 5;
-        this.animateScrollLine(goal, change / steps, steps)
+        this.animateScroll(goal);
     }
 
     private scrollToTop() {
         if (!this.plugin.settings.readingTopBottomScrollEnabled) return;
 
+        this.plugin.jumpList.recordJump();
+        this.animation.cancel();
         this.scroller.scrollTo({ top: 0 });
     }
 
     private scrollToBottom() {
         if (!this.plugin.settings.readingTopBottomScrollEnabled) return;
 
+        this.plugin.jumpList.recordJump();
+        this.animation.cancel();
         this.scroller.scrollTo({ top: 1000000000 });
         window.requestAnimationFrame(() => {
             this.scroller.scrollTo({ top: 1000000000 });
@@ -125,14 +134,16 @@ export class PreviewScrollKeys {
 
     /**
      * Shared utility function to scroll smoothly towards a goal.
-     * stepSize should be signed.
      */
-    private animateScrollLine(goal: number, stepSize: number, step: number): void {
-        if (step <= 0) return;
-
-        this.scroller.scrollTo({ top: goal - stepSize * (step - 1) });
-        this.animationFrame = window.requestAnimationFrame(() =>
-            this.animateScrollLine(goal, stepSize, step - 1),
+    private animateScroll(goal: number): void {
+        const scroller = this.scroller;
+        const start = scroller.scrollTop;
+        const change = goal - start;
+
+        this.animation.start(
+            this.ANIMATION_DURATION,
+            this.plugin.settings.animationEasing,
+            (progress) => scroller.scrollTo({ top: start + change * progress }),
         );
     }
 }
@@ -3,6 +3,7 @@ import {
     Editor,
     EditorRange,
     FileView,
+    HeadingCache,
     MarkdownView,
     Notice,
     Platform,
@@ -12,14 +13,93 @@ import {
     debounce,
     normalizePath,
 } from "obsidian";
+import { EditorState } from "@codemirror/state";
 
+import { ContentAnchor, createAnchor, resolveAnchor } from "@core/anchor";
 import { default as ScrollingPlugin } from "@core/main";
+import { clamp } from "@core/util";
 
-interface EphemeralState {
+export interface EphemeralState {
     timestamp: number;
     scroll?: number;
     scrollTop?: number;
     cursor?: EditorRange;
+    /** Horizontal scroll positions of code blocks by position of the opening fence. */
+    codeBlocks?: Record<number, number>;
+    /** Content at the cursor or scroll position, which is found again after edits. */
+    anchor?: ContentAnchor;
+}
+
+/**
+ * Scroll & cursor position without anchor and code block offsets.
+ * Keeps the immutable state of the editor, so that they can be added later by completePosition.
+ */
+export interface CapturedPosition {
+    state: EphemeralState;
+    editorState?: EditorState;
+}
+
+/**
+ * Content of the scroll positions file.
+ * Files without version were written before versioning and only contain the states.
+ */
+interface StatesFile {
+    version: number;
+    states: Record<string, EphemeralState>;
+    /** Time of deletion by state key. Prevents merging deleted states back in. */
+    deleted: Record<string, number>;
+}
+
+/** Increase and add a migration, whenever the stored format of EphemeralState changes. */
+const STATES_FILE_VERSION = 2;
+
+/**
+ * Upgrades the content of the scroll positions file by one version.
+ * Indexed by the version to upgrade from.
+ */
+const STATES_FILE_MIGRATIONS: Record<
+    number,
+    (data: Record<string, unknown>) => Record<string, unknown>
+> = {
+    0: (data) => ({ version: 1, states: data }),
+    1: (data) => ({ ...data, version: 2, deleted: {} }),
+};
+
+/** Key of the device id in the local storage of the vault. */
+const DEVICE_ID_KEY = "scrolling-device-id";
+
+/**
+ * Parses the scroll positions file and migrates it to the current version.
+ * Empty content is read as a file without states.
+ * Throws if the content is corrupted.
+ */
+export function parseStatesFile(data: string): StatesFile {
+    if (!data.trim()) return { version: STATES_FILE_VERSION, states: {}, deleted: {} };
+
+    const parsed: unknown = JSON.parse(data);
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+        throw new Error("Scroll positions file does not contain an object.");
+    }
+
+    let file = parsed as Record<string, unknown>;
+    let version = typeof file.version === "number" ? file.version : 0;
+
+    // Files of newer plugin versions are loaded as they are.
+    while (version < STATES_FILE_VERSION) {
+        const migrate = STATES_FILE_MIGRATIONS[version];
+        if (!migrate) throw new Error(`Unknown scroll positions file version: ${version}`);
+
+        file = migrate(file);
+        version = file.version as number;
+    }
+
+    const isRecord = (value: unknown) =>
+        typeof value === "object" && value !== null && !Array.isArray(value);
+    if (!isRecord(file.states) || !isRecord(file.deleted)) {
+        throw new Error("Scroll positions file does not contain states.");
+    }
+
+    return file as unknown as StatesFile;
 }
 
 class FileLeaf extends WorkspaceLeaf {
@@ -30,11 +110,18 @@ export class RestoreScroll {
     private readonly plugin: ScrollingPlugin;
 
     private ephemeralStates: Record<string, EphemeralState> = {};
+    private deletedStates: Record<string, number> = {};
+
+    // Identifies this device, if positions are stored per device.
+    private deviceId: string | null = null;
 
     // Number of files that are currently opening.
     // If atleast one file is opening, no file states will be saved.
     private numOpeningFiles = 0;
 
+    // Set while a file is opened at a given state, which replaces the stored state.
+    private isOpeningState = false;
+
     private readonly storeStateDebounced: Debouncer<[HTMLElement?, Event?], void>;
     private readonly writeStatesFileDebounced: Debouncer<[], void>;
 
@@ -42,10 +129,29 @@ export class RestoreScroll {
 
     private workspaceInitialized: boolean;
 
+    // Writes must not overlap, as each write renames files.
+    private pendingWrite: Promise<void> = Promise.resolve();
+
+    // Whether the file on disk was loaded or written successfully and may become the backup.
+    private isStatesFileIntact = false;
+    private lastBackupTime = 0;
+
+    // Modification time of the file after the last load, merge or write.
+    // Any other time means, that the file was written by another device.
+    private statesFileMtime = 0;
+
     // Prime numbers :)
     private readonly STORE_INTERVAL = 97;
     private readonly FILE_WRITE_INTERVAL = 293;
 
+    // The backup lags behind, so that it survives a faulty write.
+    private readonly BACKUP_INTERVAL = 10 * 60 * 1000;
+    private readonly TEMP_SUFFIX = ".tmp";
+    private readonly BACKUP_SUFFIX = ".bak";
+
+    // Deleted states must be kept until all devices have merged them.
+    private readonly DELETED_STATE_AGE = 30 * 24 * 60 * 60 * 1000;
+
     constructor(plugin: ScrollingPlugin) {
         this.plugin = plugin;
 
@@ -76,6 +182,7 @@ export class RestoreScroll {
         plugin.events.onFileOpen(this.fileOpenHandler.bind(this));
         plugin.events.onFileDelete(this.fileDeleteHandler.bind(this));
         plugin.events.onFileRename(this.fileRenameHandler.bind(this));
+        plugin.events.onFileModify(this.fileModifyHandler.bind(this));
         plugin.events.onLayoutReady(this.layoutReadyHandler.bind(this));
         plugin.events.onLayoutReady(this.cursorUpdateHandler.bind(this));
     }
@@ -91,23 +198,43 @@ export class RestoreScroll {
     /**
      * Updates the state file path.
      * Loads the state file on disk asynchronously.
+     * Falls back to the temporary file of an interrupted write and then to the backup.
      */
     public async loadStatesFile(): Promise<void> {
         const exists = await this.checkStatesFileLoadPath();
         if (!exists) return;
         const filePath = this.plugin.settings.restoreScrollFilePath;
+        const adapter = this.plugin.app.vault.adapter;
 
-        try {
-            const data = await this.plugin.app.vault.adapter.read(filePath);
-            if (data) {
-                this.ephemeralStates = JSON.parse(data);
-            } else {
-                this.ephemeralStates = {};
+        let corrupted = false;
+        for (const path of [filePath, this.getTempFilePath(), this.getBackupFilePath()]) {
+            if (!(await adapter.exists(path))) continue;
+
+            try {
+                const file = parseStatesFile(await adapter.read(path));
+                this.ephemeralStates = file.states;
+                this.deletedStates = file.deleted;
+            } catch (error) {
+                console.error(`Failed to load scroll positions file ${path}:`, error);
+                corrupted = true;
+                continue;
             }
-        } catch (error) {
-            console.error("Failed to load scroll positions file:", error);
-            this.ephemeralStates = {};
+
+            this.isStatesFileIntact = path === filePath;
+            if (this.isStatesFileIntact) {
+                this.statesFileMtime = (await adapter.stat(path))?.mtime ?? 0;
+            }
+            if (corrupted) {
+                new Notice("Scroll positions file is corrupted. Restored positions from backup.");
+            }
+            return;
         }
+
+        if (corrupted) {
+            new Notice("Scroll positions file is corrupted and no backup could be restored.");
+        }
+        this.ephemeralStates = {};
+        this.deletedStates = {};
     }
 
     /**
@@ -201,6 +328,7 @@ export class RestoreScroll {
     private fileOpenHandler(_file: TFile): void {
         // Do not restore on initial load. Responsiblity of layoutReadyHandler.
         if (!this.workspaceInitialized) return;
+        if (this.isOpeningState) return;
         if (this.plugin.settings.restoreScrollInitialOnly) return;
 
         // Do not restore if heading link/search is used.
@@ -282,7 +410,9 @@ export class RestoreScroll {
      * Updates file cache.
      */
     private fileDeleteHandler(file: TAbstractFile): void {
-        delete this.ephemeralStates[file.path];
+        for (const key of this.getStateKeys(file.path)) {
+            this.deleteState(key);
+        }
     }
 
     /**
@@ -292,8 +422,39 @@ export class RestoreScroll {
      * Do not confuse with renameStatesFile.
      */
     private fileRenameHandler(file: TAbstractFile, old: string): void {
-        this.ephemeralStates[file.path] = this.ephemeralStates[old];
-        delete this.ephemeralStates[old];
+        for (const key of this.getStateKeys(old)) {
+            const newKey = file.path + key.slice(old.length);
+            this.ephemeralStates[newKey] = this.ephemeralStates[key];
+            delete this.deletedStates[newKey];
+            this.deleteState(key);
+        }
+    }
+
+    /**
+     * On file modification.
+     * Merges the state file, if it is stored inside the vault and was synced from another device.
+     */
+    private fileModifyHandler(file: TAbstractFile): void {
+        if (file.path !== normalizePath(this.plugin.settings.restoreScrollFilePath)) return;
+
+        this.pendingWrite = this.pendingWrite.then(() => this.mergeStatesFile());
+    }
+
+    /**
+     * Removes a state and remembers the deletion for merging.
+     */
+    private deleteState(key: string): void {
+        delete this.ephemeralStates[key];
+        this.deletedStates[key] = Date.now();
+    }
+
+    /**
+     * Returns the keys of all states of a file, including other splits and devices.
+     */
+    private getStateKeys(path: string): string[] {
+        return Object.keys(this.ephemeralStates).filter(
+            (key) => key === path || key.startsWith(path + "#") || key.startsWith(path + "|"),
+        );
     }
 
     /**
@@ -303,6 +464,19 @@ export class RestoreScroll {
         return this.plugin.manifest.dir + "/scrolling-positions.json";
     }
 
+    /**
+     * Temporary file of a write, which replaces the state file afterwards.
+     * Kept in the plugin directory like the backup, so that a state file
+     * inside the vault leaves no files behind, which are shown and synced.
+     */
+    private getTempFilePath(): string {
+        return this.getDefaultStateFilePath() + this.TEMP_SUFFIX;
+    }
+
+    private getBackupFilePath(): string {
+        return this.getDefaultStateFilePath() + this.BACKUP_SUFFIX;
+    }
+
     /**
      * Checks whether the file of the specified leaf is already opened in a different tab of the same split.
      */
@@ -325,21 +499,40 @@ export class RestoreScroll {
         // Mode top means feature is disabled.
         if (this.plugin.settings.restoreScrollMode === "top") return;
 
-        let cursor: EditorRange, scroll: number, scrollTop: number;
+        let ephemeralState: EphemeralState | undefined;
         if (this.plugin.settings.restoreScrollMode === "bottom") {
             // For bottom mode use same logic as for scroll mode.
-            scroll = Infinity;
-            scrollTop = Infinity;
+            ephemeralState = { timestamp: 0, scroll: Infinity, scrollTop: Infinity };
         } else {
             // Read state of file with split id.
-            const fileId = this.getFileId(view);
-            const ephemeralState = this.ephemeralStates[fileId];
+            // Positions of other devices are used until this device stores its own.
+            ephemeralState =
+                this.ephemeralStates[this.getStateKey(view)] ??
+                this.ephemeralStates[this.getFileId(view)];
             if (!ephemeralState) return;
-            ({ cursor, scroll, scrollTop } = ephemeralState);
         }
 
+        this.applyState(view, ephemeralState, this.plugin.settings.restoreScrollMode === "cursor");
+    }
+
+    /**
+     * Applies a captured state to a view.
+     * Restores the cursor instead of the scroll position in source mode, if requested.
+     */
+    public applyState(view: FileView, state: EphemeralState, restoreCursor: boolean): void {
+        let { cursor, scroll } = state;
+        const { scrollTop, codeBlocks, anchor } = state;
+
         if (view instanceof MarkdownView && view.getMode() === "source" && (scroll || cursor)) {
-            if (cursor && this.plugin.settings.restoreScrollMode === "cursor") {
+            if (anchor) {
+                ({ cursor, scroll } = this.followAnchor(view.editor, anchor, cursor, scroll));
+            }
+
+            if (codeBlocks && this.plugin.settings.restoreScrollCodeBlocks) {
+                this.plugin.codeBlock.setOffsets(view.editor, codeBlocks);
+            }
+
+            if (cursor && restoreCursor) {
                 view.editor.setCursor(cursor.from);
                 view.setEphemeralState({ cursor, scroll, focus: true });
                 view.editor.scrollIntoView(cursor, true);
@@ -353,7 +546,7 @@ export class RestoreScroll {
                     view.setEphemeralState({ scroll });
                 }, this.plugin.settings.restoreScrollDelay);
             }
-        } else if (scrollTop) {
+        } else if (scrollTop !== undefined) {
             const scroller = this.getScroller(view);
             if (!scroller) return;
 
@@ -371,6 +564,80 @@ export class RestoreScroll {
         }
     }
 
+    /**
+     * Opens a file in the leaf and applies the state as soon as the file finished loading.
+     * Used to navigate to positions captured by other components.
+     */
+    public async openFileState(
+        leaf: WorkspaceLeaf,
+        file: TFile,
+        state: EphemeralState,
+    ): Promise<void> {
+        this.isOpeningState = true;
+        try {
+            await leaf.openFile(file);
+        } finally {
+            this.isOpeningState = false;
+        }
+
+        // Must be reset in iter!
+        this.numOpeningFiles += 1;
+
+        let numFrames = 0;
+        const MAX_ATTEMPTS = 100;
+        const iter = () => {
+            if (leaf.working && numFrames++ < MAX_ATTEMPTS) {
+                window.requestAnimationFrame(iter);
+                return;
+            }
+
+            if (leaf.view instanceof FileView) this.applyState(leaf.view, state, true);
+            this.numOpeningFiles -= 1;
+        };
+        iter();
+    }
+
+    /**
+     * Moves the stored cursor and scroll position by the distance the anchor moved,
+     * if the note was edited since the state was stored.
+     * Keeps the positions if the anchor is not found.
+     */
+    private followAnchor(
+        editor: Editor,
+        anchor: ContentAnchor,
+        cursor: EditorRange | undefined,
+        scroll: number | undefined,
+    ): { cursor: EditorRange | undefined; scroll: number | undefined } {
+        const line = resolveAnchor(
+            editor,
+            anchor,
+            this.getHeadings(this.plugin.events.getEditorFile(editor)),
+        );
+        if (line === null || line === anchor.line) return { cursor, scroll };
+
+        const delta = line - anchor.line;
+        const lastLine = editor.lineCount() - 1;
+
+        if (cursor) {
+            cursor = {
+                from: { line: clamp(cursor.from.line + delta, 0, lastLine), ch: cursor.from.ch },
+                to: { line: clamp(cursor.to.line + delta, 0, lastLine), ch: cursor.to.ch },
+            };
+        }
+        if (scroll !== undefined) scroll = clamp(scroll + delta, 0, lastLine);
+
+        return { cursor, scroll };
+    }
+
+    /**
+     * Returns the headings of the note from the metadata cache.
+     */
+    private getHeadings(file: TFile | null): HeadingCache[] {
+        if (!file) return [];
+
+        return this.plugin.app.metadataCache.getFileCache(file)?.headings ?? [];
+    }
+
     /**
      * Returns the scroller Element for pdf files, bases and markdown previews.
      * Markdown source must be checked and handled separately.
@@ -420,19 +687,54 @@ export class RestoreScroll {
     }
 
     /**
-     * Updates the state file path.
      * Writes the state file on disk asynchronously.
-     *  TODO: should write to a temporary file to avoid interrupt corruptions.
+     * Waits for the previous write to finish.
+     */
+    private writeStatesFile(): Promise<void> {
+        this.pendingWrite = this.pendingWrite.then(() => this.replaceStatesFile());
+        return this.pendingWrite;
+    }
+
+    /**
+     * Updates the state file path.
+     * Writes the states to a temporary file, which replaces the state file afterwards.
+     * An interrupted write leaves either the old or the new file behind.
+     * Keeps the replaced file as backup every few minutes.
      */
-    private async writeStatesFile(): Promise<void> {
+    private async replaceStatesFile(): Promise<void> {
         if (!this.plugin.settings.restoreScrollFileEnabled) return;
 
         await this.checkStatesFileWritePath();
         const filePath = this.plugin.settings.restoreScrollFilePath;
+        const tempPath = this.getTempFilePath();
+        const backupPath = this.getBackupFilePath();
+        const adapter = this.plugin.app.vault.adapter;
 
         try {
-            const data = JSON.stringify(this.ephemeralStates);
-            await this.plugin.app.vault.adapter.write(filePath, data);
+            await this.mergeStatesFile();
+            this.discardDeletedStates();
+
+            const file: StatesFile = {
+                version: STATES_FILE_VERSION,
+                states: this.ephemeralStates,
+                deleted: this.deletedStates,
+            };
+            await adapter.write(tempPath, JSON.stringify(file));
+
+            if (await adapter.exists(filePath)) {
+                const now = Date.now();
+                if (this.isStatesFileIntact && now - this.lastBackupTime >= this.BACKUP_INTERVAL) {
+                    if (await adapter.exists(backupPath)) await adapter.remove(backupPath);
+                    await adapter.rename(filePath, backupPath);
+                    this.lastBackupTime = now;
+                } else {
+                    await adapter.remove(filePath);
+                }
+            }
+
+            await adapter.rename(tempPath, filePath);
+            this.isStatesFileIntact = true;
+            this.statesFileMtime = (await adapter.stat(filePath))?.mtime ?? 0;
         } catch (error) {
             new Notice("Failed to write scroll positions file. Disabling disk storage.");
             console.error("Failed to write scroll positions file:", error);
@@ -440,14 +742,70 @@ export class RestoreScroll {
         }
     }
 
+    /**
+     * Merges the state file on disk, if it was modified by another device.
+     * The newest state of each file wins. Deleted states are not merged back in.
+     */
+    private async mergeStatesFile(): Promise<void> {
+        const filePath = this.plugin.settings.restoreScrollFilePath;
+        const adapter = this.plugin.app.vault.adapter;
+
+        const stat = await adapter.stat(filePath);
+        if (!stat || stat.mtime === this.statesFileMtime) return;
+
+        let file: StatesFile;
+        try {
+            file = parseStatesFile(await adapter.read(filePath));
+        } catch (error) {
+            console.error("Failed to merge scroll positions file:", error);
+            this.isStatesFileIntact = false;
+            return;
+        }
+
+        for (const [key, time] of Object.entries(file.deleted)) {
+            this.deletedStates[key] = Math.max(this.deletedStates[key] ?? 0, time);
+        }
+
+        for (const [key, state] of Object.entries(file.states)) {
+            const current = this.ephemeralStates[key];
+            if (!current || current.timestamp < state.timestamp) {
+                this.ephemeralStates[key] = state;
+            }
+        }
+
+        for (const [key, time] of Object.entries(this.deletedStates)) {
+            if (this.ephemeralStates[key]?.timestamp <= time) {
+                delete this.ephemeralStates[key];
+            }
+        }
+
+        this.discardStates();
+
+        this.isStatesFileIntact = true;
+        this.statesFileMtime = stat.mtime;
+    }
+
+    /**
+     * Forgets deletions, which all devices have merged by now.
+     */
+    private discardDeletedStates(): void {
+        const now = Date.now();
+        for (const [key, time] of Object.entries(this.deletedStates)) {
+            if (now - time > this.DELETED_STATE_AGE) delete this.deletedStates[key];
+        }
+    }
+
     /**
      * Validates or updates the path to the storage file on disk for reading (not writing).
      * Attempts "scrolling" and "obsidian-scrolling" as fallback directory names of this plugin.
      */
     private async checkStatesFileLoadPath(): Promise<boolean> {
-        // Check saved path
-        if (await this.plugin.app.vault.adapter.exists(this.plugin.settings.restoreScrollFilePath))
-            return true;
+        // Check saved path, including the files left behind by an interrupted write
+        const filePath = this.plugin.settings.restoreScrollFilePath;
+        const adapter = this.plugin.app.vault.adapter;
+        for (const path of [filePath, this.getTempFilePath(), this.getBackupFilePath()]) {
+            if (await adapter.exists(path)) return true;
+        }
 
         // Check default path
         let default_path = this.getDefaultStateFilePath();
@@ -511,6 +869,32 @@ export class RestoreScroll {
         }
     }
 
+    /**
+     * Returns the key of the state of a view.
+     * Appends the device id, if positions are stored per device.
+     */
+    private getStateKey(view: FileView): string {
+        const fileId = this.getFileId(view);
+        if (!this.plugin.settings.restoreScrollPerDevice) return fileId;
+
+        return fileId + "|" + this.getDeviceId();
+    }
+
+    /**
+     * Returns a random id of this device, which is created once per vault.
+     */
+    private getDeviceId(): string {
+        if (this.deviceId) return this.deviceId;
+
+        this.deviceId = this.plugin.app.loadLocalStorage(DEVICE_ID_KEY) as string | null;
+        if (!this.deviceId) {
+            this.deviceId = Math.random().toString(36).slice(2, 10);
+            this.plugin.app.saveLocalStorage(DEVICE_ID_KEY, this.deviceId);
+        }
+
+        return this.deviceId;
+    }
+
     /**
      * Checks and saves current scroll & cursor position in state cache.
      * Discards old states if number of stored states is limited.
@@ -541,8 +925,32 @@ export class RestoreScroll {
         }
         if (!view) return;
 
-        const fileId = this.getFileId(view);
+        // Positions at the top are not worth storing outside of the editor.
+        const state = this.captureState(view);
+        if (!state || (state.cursor === undefined && !state.scrollTop)) return;
+
+        const key = this.getStateKey(view);
+        delete this.deletedStates[key];
+        this.ephemeralStates[key] = state;
+
+        this.discardStates();
+    }
 
+    /**
+     * Returns the current scroll & cursor position of a view.
+     * Returns null if the view has no position, e.g. while loading.
+     */
+    public captureState(view: FileView): EphemeralState | null {
+        const position = this.capturePosition(view);
+        return position && this.completePosition(position, view.file);
+    }
+
+    /**
+     * Returns the current scroll & cursor position of a view without anchor and code block offsets.
+     * Cheap enough to be called on every scroll event.
+     * Returns null if the view has no position, e.g. while loading.
+     */
+    public capturePosition(view: FileView): CapturedPosition | null {
         const timestamp = Date.now();
 
         if (view instanceof MarkdownView && view.getMode() == "source") {
@@ -554,19 +962,51 @@ export class RestoreScroll {
 
             // This function is also invoked on file load when using the file tree.
             // Simple to filter out by checking for undefined.
-            if (cursor === undefined || scroll === undefined) return;
+            if (cursor === undefined || scroll === undefined) return null;
 
-            this.ephemeralStates[fileId] = {
-                timestamp,
-                cursor,
-                scroll,
-                scrollTop,
+            return {
+                state: { timestamp, cursor, scroll, scrollTop },
+                editorState: view.editor.cm.state,
             };
-        } else {
-            const scrollTop = this.getScroller(view)?.scrollTop;
-            if (scrollTop) this.ephemeralStates[fileId] = { timestamp, scrollTop };
         }
 
+        const scrollTop = this.getScroller(view)?.scrollTop;
+        if (scrollTop === undefined) return null;
+
+        return { state: { timestamp, scrollTop } };
+    }
+
+    /**
+     * Adds the anchor and code block offsets to a captured position.
+     * The headings of the anchor are taken from the file.
+     */
+    public completePosition(position: CapturedPosition, file: TFile | null): EphemeralState {
+        const { state, editorState } = position;
+        if (!editorState || !state.cursor || state.scroll === undefined) return state;
+
+        const codeBlocks = this.plugin.settings.restoreScrollCodeBlocks
+            ? this.plugin.codeBlock.getOffsets(editorState)
+            : undefined;
+
+        // Anchor the line, which is restored.
+        const doc = editorState.doc;
+        const anchorLine =
+            this.plugin.settings.restoreScrollMode === "cursor"
+                ? state.cursor.from.line
+                : Math.floor(state.scroll);
+        const anchor = createAnchor(
+            { getLine: (line) => doc.line(line + 1).text, lineCount: () => doc.lines },
+            clamp(anchorLine, 0, doc.lines - 1),
+            this.getHeadings(file),
+        );
+
+        return { ...state, codeBlocks, anchor };
+    }
+
+    /**
+     * Limits the number of stored file states.
+     */
+    private discardStates() {
         if (this.plugin.settings.restoreScrollAge) {
             this.discardNewStates();
         } else {
@@ -1,15 +1,25 @@
 import { MarkdownView, WorkspaceLeaf, setIcon } from "obsidian";
 
 import type { default as ScrollingPlugin } from "@core/main";
+import { Animation } from "@core/animation";
 
 export class ScrollButtons {
     private plugin: ScrollingPlugin;
 
     private leaves: Set<WorkspaceLeaf> = new Set();
 
+    private readonly animation = new Animation();
+
+    /** Duration of the scroll animation in ms. */
+    private readonly SCROLL_DURATION = 300;
+
     constructor(plugin: ScrollingPlugin) {
         this.plugin = plugin;
 
+        plugin.register(() => {
+            this.animation.cancel();
+        });
+
         plugin.events.onLayoutReady(this.setup.bind(this));
         plugin.events.onLeafChange(this.leafChangeHandler.bind(this));
     }
@@ -94,14 +104,30 @@ export class ScrollButtons {
     }
 
     private scrollTo(view: MarkdownView, pos: number): void {
+        let scroller: Element;
         if (view.getMode() == "source") {
-            view.currentMode.applyScroll(pos);
+            scroller = view.editor.cm.scrollDOM;
         } else {
-            let scroller = view.contentEl.getElementsByClassName("markdown-preview-view")[0];
-            scroller.scrollTo({ top: pos });
-            window.requestAnimationFrame(() => {
-                scroller.scrollTo({ top: pos });
-            });
+            scroller = view.contentEl.getElementsByClassName("markdown-preview-view")[0];
         }
+        if (!scroller) return;
+
+        const start = scroller.scrollTop;
+        const change = Math.min(pos, scroller.scrollHeight - scroller.clientHeight) - start;
+
+        this.animation.start(
+            this.SCROLL_DURATION,
+            this.plugin.settings.animationEasing,
+            (progress) => {
+                scroller.scrollTo({ top: start + change * progress });
+
+                // The height of the document might change while scrolling.
+                if (progress === 1) {
+                    window.requestAnimationFrame(() => {
+                        scroller.scrollTo({ top: pos });
+                    });
+                }
+            },
+        );
     }
 }
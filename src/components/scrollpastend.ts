@@ -0,0 +1,97 @@
+import { Extension } from "@codemirror/state";
+import { EditorView, ViewPlugin, ViewUpdate } from "@codemirror/view";
+
+import type { default as ScrollingPlugin } from "@core/main";
+
+/**
+ * Adds padding below the last line of a note,
+ * so that the end of the note can be scrolled up to the anchor of the centered cursor.
+ */
+export class ScrollPastEnd {
+    private readonly plugin: ScrollingPlugin;
+
+    /**
+     * Registered once; modified in place and applied with Workspace.updateOptions.
+     */
+    private readonly editorExtensions: Extension[] = [];
+
+    constructor(plugin: ScrollingPlugin) {
+        this.plugin = plugin;
+
+        plugin.registerEditorExtension(this.editorExtensions);
+
+        this.updateStyle();
+
+        plugin.register(() => {
+            activeDocument.body.removeClass("scrolling-scroll-past-end");
+            activeDocument.body.style.removeProperty("--scrolling-scroll-past-end");
+        });
+    }
+
+    /**
+     * Update padding in source and reading mode.
+     * Called on plugin load and change of settings.
+     */
+    public updateStyle(): void {
+        const enabled = this.plugin.settings.scrollPastEndEnabled;
+        const percentage = this.plugin.settings.scrollPastEndPercentage;
+
+        this.editorExtensions.length = 0;
+        if (enabled) {
+            this.editorExtensions.push(createPaddingExtension(percentage / 100));
+        }
+        this.plugin.app.workspace.updateOptions();
+
+        // Reading mode uses the window height as approximation of the viewport height.
+        if (enabled) {
+            activeDocument.body.addClass("scrolling-scroll-past-end");
+            activeDocument.body.style.setProperty("--scrolling-scroll-past-end", `${percentage}vh`);
+        } else {
+            activeDocument.body.removeClass("scrolling-scroll-past-end");
+            activeDocument.body.style.removeProperty("--scrolling-scroll-past-end");
+        }
+    }
+}
+
+/**
+ * Returns the padding below the last line in pixels for the height of the scroller.
+ */
+export function calculatePadding(height: number, fraction: number): number {
+    return Math.max(0, Math.floor(height * fraction));
+}
+
+/**
+ * Returns an editor extension, which pads the content of the editor at the bottom.
+ * The padding is a fraction of the height of the scroller and updates on resize.
+ */
+function createPaddingExtension(fraction: number): Extension {
+    return ViewPlugin.fromClass(
+        class {
+            private readonly view: EditorView;
+
+            constructor(view: EditorView) {
+                this.view = view;
+                this.measure();
+            }
+
+            update(update: ViewUpdate) {
+                if (update.geometryChanged) this.measure();
+            }
+
+            destroy() {
+                this.view.contentDOM.style.removeProperty("padding-bottom");
+            }
+
+            measure() {
+                this.view.requestMeasure({
+                    key: "scrolling-scroll-past-end",
+                    read: (view) => view.scrollDOM.clientHeight,
+                    write: (height, view) => {
+                        const padding = calculatePadding(height, fraction);
+                        view.contentDOM.style.paddingBottom = `${padding}px`;
+                    },
+                });
+            }
+        },
+    );
+}
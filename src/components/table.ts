@@ -0,0 +1,266 @@
+import { Editor } from "obsidian";
+
+import type { default as ScrollingPlugin } from "@core/main";
+import { EXTRA_LINE_LENGTH, clamp, normalizeWheelDelta } from "@core/util";
+
+/**
+ * Source lines of tables and the scroll container of tables rendered in Live Preview.
+ */
+const TABLE_SELECTOR =
+    ".markdown-source-view .cm-line.HyperMD-table-row, .markdown-source-view .cm-table-widget .table-wrapper";
+
+export class Table {
+    private readonly plugin: ScrollingPlugin;
+
+    /**
+     * Elements, which share the horizontal scroll position.
+     * Either all source lines of a table or the scroll container of a rendered table.
+     */
+    private tableRows: Element[] = [];
+
+    private currentScrollLeft = 0;
+    private currentScrollVelocity = 0;
+    private currentScrollWidth = 0;
+    private scrollAnimationFrame = 0;
+
+    private readonly FRICTION_COFFICIENT = 0.8;
+    private readonly SCROLL_FACTOR = 0.4;
+
+    /** Minimum distance between cursor and the edges of the table in characters. */
+    private readonly CURSOR_MARGIN = 4;
+
+    constructor(plugin: ScrollingPlugin) {
+        this.plugin = plugin;
+
+        this.updateStyle();
+
+        plugin.register(() => {
+            window.cancelAnimationFrame(this.scrollAnimationFrame);
+            activeDocument.body.removeClass("scrolling-horizontal-tables");
+        });
+
+        plugin.events.onTouchMove(this.touchMoveHandler.bind(this));
+        plugin.events.onLeafChange(this.leafChangeHandler.bind(this));
+        plugin.events.onWheelCancelling(this.wheelHandler.bind(this), 8);
+        plugin.events.onCursorUpdate(this.cursorUpdateHandler.bind(this));
+        plugin.events.onGeometryChange(this.geometryChangeHandler.bind(this));
+    }
+
+    /**
+     * Update wrapping of tables when toggling this feature.
+     * Called on plugin load and change of settings.
+     */
+    public updateStyle(): void {
+        if (this.plugin.settings.tableScrollEnabled) {
+            activeDocument.body.addClass("scrolling-horizontal-tables");
+        } else {
+            activeDocument.body.removeClass("scrolling-horizontal-tables");
+        }
+    }
+
+    /**
+     * On leaf change.
+     * Resets cached values.
+     */
+    private leafChangeHandler(): void {
+        window.cancelAnimationFrame(this.scrollAnimationFrame);
+        this.scrollAnimationFrame = 0;
+
+        this.tableRows = [];
+        this.currentScrollLeft = 0;
+        this.currentScrollVelocity = 0;
+    }
+
+    /**
+     * On geometry change.
+     * Codemirror adds and removes lines on the fly, so apply the scroll position to new lines.
+     */
+    private geometryChangeHandler(): void {
+        if (!this.plugin.settings.tableScrollEnabled) return;
+
+        const row = this.tableRows.find((el) => el.isConnected);
+        if (!row) return;
+
+        this.collectRows(row);
+        this.updateHorizontalScroll();
+    }
+
+    /**
+     * On wheel event.
+     * Scrolls all rows of a table simultanously.
+     * Returns true if the wheel event is handled successfully.
+     */
+    private wheelHandler(event: WheelEvent): boolean {
+        if (!this.plugin.settings.tableScrollEnabled) return false;
+
+        const row = this.getTableElement(event.target);
+        if (!row) return false;
+
+        const { deltaX, deltaY } = normalizeWheelDelta(event);
+        if (Math.abs(deltaX) < Math.abs(deltaY)) return false;
+
+        this.horizontalScroll(row, deltaX * this.SCROLL_FACTOR);
+        return true;
+    }
+
+    /**
+     * On touch move event.
+     * Scrolls all rows of a table simultanously.
+     */
+    private touchMoveHandler(event: TouchEvent, deltaX: number, deltaY: number): void {
+        if (!this.plugin.settings.tableScrollEnabled) return;
+
+        const row = this.getTableElement(event.target);
+        if (!row) return;
+
+        if (Math.abs(deltaX) < Math.abs(deltaY)) return;
+
+        // Follow the finger without momentum.
+        this.horizontalScroll(row, deltaX, false);
+
+        // Stop Obsidian from expanding the side panels
+        event.stopPropagation();
+    }
+
+    /**
+     * On cursor update.
+     * Scrolls to keep cursor in view.
+     */
+    private cursorUpdateHandler(editor: Editor): void {
+        if (!this.plugin.settings.tableScrollEnabled) return;
+
+        const lineEl = editor.cm.contentDOM.querySelector(".cm-line.cm-active");
+        if (!lineEl?.classList.contains("HyperMD-table-row")) return;
+
+        const coords = editor.cm.coordsAtPos(editor.cm.state.selection.main.head);
+        if (!coords) return;
+
+        this.collectRows(lineEl);
+        this.currentScrollLeft = lineEl.scrollLeft;
+
+        // Horizontal position of the cursor inside the scrolled content.
+        const cursorX = coords.left - lineEl.getBoundingClientRect().left + lineEl.scrollLeft;
+        const margin = editor.cm.defaultCharacterWidth * this.CURSOR_MARGIN;
+        const scrollLeft = this.calculateCursorScroll(cursorX, lineEl.clientWidth, margin);
+
+        if (scrollLeft === this.currentScrollLeft) return;
+
+        this.currentScrollLeft = scrollLeft;
+        this.updateHorizontalScroll();
+
+        // Tell CodeMirror to update cursor
+        this.plugin.events.skipNextViewUpdate();
+        editor.cm.dispatch({ selection: editor.cm.state.selection });
+    }
+
+    /**
+     * Returns the closest scroll position, which keeps the cursor in view.
+     */
+    private calculateCursorScroll(cursorX: number, width: number, margin: number): number {
+        const scrollLeft = clamp(this.currentScrollLeft, cursorX + margin - width, cursorX - margin);
+        return clamp(scrollLeft, 0, this.currentScrollWidth);
+    }
+
+    /**
+     * Returns the scrollable table element containing the target.
+     */
+    private getTableElement(target: EventTarget | null): Element | null {
+        if (!(target instanceof Element)) return null;
+        return target.closest(TABLE_SELECTOR);
+    }
+
+    /**
+     * Scrolls the table of the row horizontally.
+     * With momentum, the distance continues to decay over multiple animation frames.
+     */
+    private horizontalScroll(row: Element, distance: number, momentum = true): void {
+        this.collectRows(row);
+
+        window.cancelAnimationFrame(this.scrollAnimationFrame);
+        this.scrollAnimationFrame = 0;
+
+        if (!this.currentScrollWidth) return;
+
+        // Restore previous position
+        this.currentScrollLeft = row.scrollLeft;
+
+        if (momentum) {
+            this.currentScrollVelocity = distance;
+            this.animateScroll();
+        } else {
+            this.currentScrollVelocity = 0;
+            this.currentScrollLeft = clamp(
+                this.currentScrollLeft + distance,
+                0,
+                this.currentScrollWidth,
+            );
+            this.updateHorizontalScroll();
+        }
+    }
+
+    /**
+     * Scrolls horizontally over multiple animation frames.
+     */
+    private animateScroll(): void {
+        this.currentScrollLeft += this.currentScrollVelocity;
+
+        if (this.currentScrollLeft < 0) {
+            this.currentScrollLeft = 0;
+            this.currentScrollVelocity = 0;
+        } else if (this.currentScrollLeft > this.currentScrollWidth) {
+            this.currentScrollLeft = this.currentScrollWidth;
+            this.currentScrollVelocity = 0;
+        }
+
+        if (Math.abs(this.currentScrollVelocity) > 0.2) {
+            this.currentScrollVelocity *= this.FRICTION_COFFICIENT;
+            this.scrollAnimationFrame = window.requestAnimationFrame(() => this.animateScroll());
+        } else {
+            this.scrollAnimationFrame = 0;
+        }
+
+        this.updateHorizontalScroll();
+    }
+
+    /**
+     * Applies current horizontal scroll position to all rows of the table.
+     */
+    private updateHorizontalScroll(): void {
+        this.tableRows.forEach((el) => {
+            el.scrollLeft = this.currentScrollLeft;
+        });
+    }
+
+    /**
+     * Collects all rows of the table containing the row.
+     * Updates the scrollable width of the table in pixels based on the longest row.
+     */
+    private collectRows(row: Element): void {
+        // Rendered tables scroll as a whole.
+        if (!row.classList.contains("HyperMD-table-row")) {
+            this.tableRows = [row];
+            this.currentScrollWidth = Math.max(0, row.scrollWidth - row.clientWidth);
+            return;
+        }
+
+        this.tableRows = [row];
+        let maxScrollWidth = row.scrollWidth;
+
+        let next = row.nextElementSibling;
+        while (next?.classList.contains("HyperMD-table-row")) {
+            this.tableRows.push(next);
+            maxScrollWidth = Math.max(maxScrollWidth, next.scrollWidth);
+            next = next.nextElementSibling;
+        }
+
+        let prev = row.previousElementSibling;
+        while (prev?.classList.contains("HyperMD-table-row")) {
+            this.tableRows.push(prev);
+            maxScrollWidth = Math.max(maxScrollWidth, prev.scrollWidth);
+            prev = prev.previousElementSibling;
+        }
+
+        // Source lines are artificially extended, see EXTRA_LINE_LENGTH.
+        this.currentScrollWidth = Math.max(0, maxScrollWidth - EXTRA_LINE_LENGTH - row.clientWidth);
+    }
+}
@@ -0,0 +1,160 @@
+import { Editor, HeadingCache } from "obsidian";
+
+import { clamp } from "@core/util";
+
+/** Lines of a note, usually the editor. Lines are zero indexed. */
+type AnchorDocument = Pick<Editor, "getLine" | "lineCount">;
+
+/**
+ * Content around a stored line, which can be found again after the note was edited.
+ * Offsets are counted in lines from the found content to the stored line.
+ */
+export interface ContentAnchor {
+    /** Stored line. */
+    line: number;
+    /** Block id of the paragraph containing the line. */
+    blockId?: string;
+    blockOffset?: number;
+    /** Trimmed text of the line. */
+    text?: string;
+    /** Headings enclosing the line, from the top level down to the nearest heading. */
+    headings?: string[];
+    headingOffset?: number;
+}
+
+const BLOCK_ID_REGEX = /(?:^|\s)\^([\w-]+)\s*$/;
+
+/** Short lines like braces or list markers are too common to identify a position. */
+const MIN_TEXT_LENGTH = 8;
+const MAX_TEXT_LENGTH = 100;
+
+/** Block ids are placed at the end of a paragraph, which is usually short. */
+const MAX_BLOCK_LINES = 50;
+
+/**
+ * Calls back for every heading of the note up to the last line,
+ * together with the path of enclosing headings including the heading itself.
+ * Returns the line of the heading, for which the callback returned true.
+ * Uses the headings of the metadata cache, which excludes code blocks.
+ */
+function findHeading(
+    headings: HeadingCache[],
+    lastLine: number,
+    callback: (line: number, path: string[]) => boolean,
+): number | null {
+    const path: string[] = [];
+    const levels: number[] = [];
+
+    for (const heading of headings) {
+        const line = heading.position.start.line;
+        if (line > lastLine) break;
+
+        while (levels.length && levels[levels.length - 1] >= heading.level) {
+            levels.pop();
+            path.pop();
+        }
+        levels.push(heading.level);
+        path.push(heading.heading);
+
+        if (callback(line, path)) return line;
+    }
+
+    return null;
+}
+
+/**
+ * Returns the line with the given text, which is closest to the expected line.
+ */
+function findNearestText(doc: AnchorDocument, text: string, expectedLine: number): number | null {
+    const lineCount = doc.lineCount();
+    const matches = (line: number) =>
+        line >= 0 &&
+        line < lineCount &&
+        doc.getLine(line).trim().slice(0, MAX_TEXT_LENGTH) === text;
+
+    for (let distance = 0; distance < lineCount; distance++) {
+        if (matches(expectedLine + distance)) return expectedLine + distance;
+        if (matches(expectedLine - distance)) return expectedLine - distance;
+    }
+
+    return null;
+}
+
+/**
+ * Describes the content around a line of the note.
+ * The headings of the note are taken from the metadata cache.
+ */
+export function createAnchor(
+    doc: AnchorDocument,
+    line: number,
+    headings: HeadingCache[] = [],
+): ContentAnchor {
+    const anchor: ContentAnchor = { line };
+
+    const text = doc.getLine(line).trim();
+    if (text) anchor.text = text.slice(0, MAX_TEXT_LENGTH);
+
+    const lastLine = Math.min(doc.lineCount() - 1, line + MAX_BLOCK_LINES);
+    for (let blockLine = line; blockLine <= lastLine; blockLine++) {
+        const blockText = doc.getLine(blockLine);
+        if (!blockText.trim()) break;
+
+        const match = BLOCK_ID_REGEX.exec(blockText);
+        if (match) {
+            anchor.blockId = match[1];
+            anchor.blockOffset = line - blockLine;
+            break;
+        }
+    }
+
+    findHeading(headings, line, (headingLine, path) => {
+        anchor.headings = [...path];
+        anchor.headingOffset = line - headingLine;
+        return false;
+    });
+
+    return anchor;
+}
+
+/**
+ * Returns the current line of the anchor or null, if the content is not found anymore.
+ * Tries the block id, the text of the line and the heading path in this order.
+ */
+export function resolveAnchor(
+    doc: AnchorDocument,
+    anchor: ContentAnchor,
+    headings: HeadingCache[] = [],
+): number | null {
+    const lastLine = doc.lineCount() - 1;
+
+    if (anchor.blockId) {
+        for (let line = 0; line <= lastLine; line++) {
+            const match = BLOCK_ID_REGEX.exec(doc.getLine(line));
+            if (match?.[1] === anchor.blockId) {
+                return clamp(line + (anchor.blockOffset ?? 0), 0, lastLine);
+            }
+        }
+    }
+
+    if (anchor.text && anchor.text.length >= MIN_TEXT_LENGTH) {
+        const line = findNearestText(doc, anchor.text, anchor.line);
+        if (line !== null) return line;
+    }
+
+    const headingPath = anchor.headings;
+    if (headingPath?.length) {
+        const line = findHeading(
+            headings,
+            lastLine,
+            (_line, path) =>
+                path.length === headingPath.length &&
+                path.every((heading, index) => heading === headingPath[index]),
+        );
+        if (line !== null) return clamp(line + (anchor.headingOffset ?? 0), 0, lastLine);
+    }
+
+    // Short text is ambiguous, but better than nothing.
+    if (anchor.text) return findNearestText(doc, anchor.text, anchor.line);
+
+    return null;
+}
@@ -0,0 +1,77 @@
+/**
+ * Easing curves map the linear progress of an animation (0-1)
+ * to the progress of the animated value (0-1).
+ */
+const EASINGS: Record<string, (t: number) => number> = {
+    linear: (t) => t,
+    "ease-out": (t) => 1 - (1 - t) ** 2,
+    "ease-in-out": (t) => (t < 0.5 ? 2 * t ** 2 : 1 - (-2 * t + 2) ** 2 / 2),
+    // Damped oscillation, which slightly overshoots the goal and settles at t = 1.
+    spring: (t) => 1 - Math.exp(-6 * t) * Math.cos(4.5 * Math.PI * t),
+};
+
+/**
+ * Returns the easing function with the given name.
+ * Falls back to linear easing for unknown names.
+ */
+export function getEasing(name: string): (t: number) => number {
+    return EASINGS[name] ?? EASINGS.linear;
+}
+
+/**
+ * Time-based animation, independent of the frame rate.
+ * Only one animation runs per instance; starting a new one cancels the previous.
+ */
+export class Animation {
+    private animationFrame = 0;
+
+    /**
+     * Starts the animation.
+     * The update callback receives the eased progress and is called once per frame.
+     * The last call always receives exactly 1.
+     * Runs the update instantly if the duration is not positive.
+     */
+    public start(duration: number, easing: string, update: (progress: number) => void): void {
+        this.cancel();
+
+        if (duration <= 0) {
+            update(1);
+            return;
+        }
+
+        const ease = getEasing(easing);
+        const startTime = performance.now();
+
+        const step = () => {
+            const t = Math.min(1, (performance.now() - startTime) / duration);
+
+            if (t < 1) {
+                this.animationFrame = window.requestAnimationFrame(step);
+                update(ease(t));
+            } else {
+                this.animationFrame = 0;
+                update(1);
+            }
+        };
+
+        this.animationFrame = window.requestAnimationFrame(step);
+    }
+
+    /**
+     * Stops the animation without finishing it.
+     */
+    public cancel(): void {
+        // Only cancel animation frame if one is currently running
+        if (this.animationFrame) {
+            window.cancelAnimationFrame(this.animationFrame);
+            this.animationFrame = 0;
+        }
+    }
+
+    /**
+     * Returns true while the animation is running.
+     */
+    public isRunning(): boolean {
+        return this.animationFrame !== 0;
+    }
+}
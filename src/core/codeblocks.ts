@@ -0,0 +1,155 @@
+import { StateField, Text, Transaction } from "@codemirror/state";
+
+import { FENCE_REGEX } from "@core/util";
+
+/**
+ * Fenced code block in the document.
+ * Lines are one indexed like in Text.line.
+ */
+export interface FencedCodeBlock {
+    /** Line of the opening fence. */
+    openLine: number;
+    /** Line of the closing fence or the last line of the document, if the block is not closed. */
+    closeLine: number;
+    closed: boolean;
+    /** Info string after the opening fence, starting with the language. */
+    info: string;
+    /** Inside of a callout or quote, or indented. Rendered by Obsidian in Live Preview. */
+    nested: boolean;
+}
+
+/**
+ * Returns all code blocks from the first line to the end of the document.
+ * The first line must not be inside of a code block.
+ * Stops early, once isSynced returns true for a line outside of a code block.
+ */
+export function findCodeBlocks(
+    doc: Text,
+    firstLine = 1,
+    isSynced?: (line: number) => boolean,
+): FencedCodeBlock[] {
+    const blocks: FencedCodeBlock[] = [];
+
+    let block: FencedCodeBlock | null = null;
+    let fence = "";
+
+    let number = firstLine - 1;
+    for (const text of doc.iterLines(firstLine)) {
+        number++;
+
+        if (!block && isSynced?.(number)) break;
+
+        const match = FENCE_REGEX.exec(text);
+        if (!match) continue;
+
+        if (!block) {
+            const prefix = text.slice(0, text.length - match[1].length - match[2].length);
+            fence = match[1];
+            block = {
+                openLine: number,
+                closeLine: doc.lines,
+                closed: false,
+                info: match[2],
+                nested: prefix.includes(">") || prefix.length > 3,
+            };
+            blocks.push(block);
+        } else if (
+            match[1][0] === fence[0] &&
+            match[1].length >= fence.length &&
+            !match[2].trim()
+        ) {
+            block.closeLine = number;
+            block.closed = true;
+            block = null;
+        }
+    }
+
+    return blocks;
+}
+
+/**
+ * Updates the code blocks after a change of the document.
+ * Only scans from the change until the fences are the same as before.
+ */
+function updateCodeBlocks(blocks: FencedCodeBlock[], tr: Transaction): FencedCodeBlock[] {
+    let fromA = Infinity;
+    let toA = 0;
+    let toB = 0;
+    tr.changes.iterChangedRanges((changeFromA, changeToA, _changeFromB, changeToB) => {
+        fromA = Math.min(fromA, changeFromA);
+        toA = Math.max(toA, changeToA);
+        toB = Math.max(toB, changeToB);
+    });
+
+    const oldDoc = tr.startState.doc;
+    const firstLine = oldDoc.lineAt(fromA).number;
+    const lastOldLine = oldDoc.lineAt(toA).number;
+    const lastNewLine = tr.state.doc.lineAt(toB).number;
+    const delta = lastNewLine - lastOldLine;
+
+    // Blocks above the change stay the same.
+    let index = 0;
+    while (index < blocks.length && blocks[index].closeLine < firstLine) index++;
+
+    // Scan a changed block from its opening fence.
+    const scanLine =
+        index < blocks.length && blocks[index].openLine < firstLine
+            ? blocks[index].openLine
+            : firstLine;
+
+    // Below the change, the old blocks apply again from the first line,
+    // which is outside of a code block before and after the change.
+    let tailIndex = index;
+    let synced = false;
+    const scanned = findCodeBlocks(tr.state.doc, scanLine, (line) => {
+        if (line <= lastNewLine) return false;
+
+        const oldLine = line - delta;
+        while (tailIndex < blocks.length && blocks[tailIndex].closeLine < oldLine) tailIndex++;
+        synced = tailIndex === blocks.length || blocks[tailIndex].openLine >= oldLine;
+        return synced;
+    });
+    if (!synced) return [...blocks.slice(0, index), ...scanned];
+
+    const tail = blocks.slice(tailIndex).map((block) => ({
+        ...block,
+        openLine: block.openLine + delta,
+        closeLine: block.closeLine + delta,
+    }));
+
+    return [...blocks.slice(0, index), ...scanned, ...tail];
+}
+
+/**
+ * Code blocks of the editor, updated incrementally.
+ * Shared by all editor extensions, which need to know the code blocks.
+ */
+export const codeBlocksField = StateField.define<FencedCodeBlock[]>({
+    create: (state) => findCodeBlocks(state.doc),
+    update: (blocks, tr) => (tr.docChanged ? updateCodeBlocks(blocks, tr) : blocks),
+});
+
+/**
+ * Returns the code blocks, which overlap with the lines from first to last line.
+ */
+export function getCodeBlocksInLines(
+    blocks: FencedCodeBlock[],
+    firstLine: number,
+    lastLine: number,
+): FencedCodeBlock[] {
+    // Binary search for the first block ending at or after the first line.
+    let low = 0;
+    let high = blocks.length;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (blocks[mid].closeLine < firstLine) low = mid + 1;
+        else high = mid;
+    }
+
+    const result: FencedCodeBlock[] = [];
+    for (let index = low; index < blocks.length && blocks[index].openLine <= lastLine; index++) {
+        result.push(blocks[index]);
+    }
+
+    return result;
+}
@@ -6,9 +6,11 @@ import {
     TAbstractFile,
     OpenViewState,
     Workspace,
+    editorInfoField,
+    editorLivePreviewField,
 } from "obsidian";
 import { EditorView, ViewUpdate } from "@codemirror/view";
-import { Transaction } from "@codemirror/state";
+import { EditorState, Transaction } from "@codemirror/state";
 import { around } from "monkey-around";
 
 import type { default as ScrollingPlugin } from "@core/main";
@@ -52,9 +54,13 @@ export class Events {
         (editor: Editor, docChanged: boolean, vimModeChanged: boolean) => void
     > = new Set();
     private geometryChangeHandlers: Set<(editor: Editor) => void> = new Set();
+    private linkOpenHandlers: Set<() => void> = new Set();
     private resizeHandlers: Set<() => void> = new Set();
+    private searchJumpHandlers: Set<(editor: Editor) => void> = new Set();
     private touchHandlers: Set<(event: TouchEvent, deltaX: number, deltaY: number) => void> =
         new Set();
+    private touchStartHandlers: Set<(event: TouchEvent) => void> = new Set();
+    private touchEndHandlers: Set<(event: TouchEvent) => void> = new Set();
     private wheelCancellingHandlers: { callback: (event: Event) => boolean; priority: number }[] =
         [];
     private wheelExtendedHandlers: Set<
@@ -93,6 +99,16 @@ export class Events {
             },
         );
 
+        plugin.registerDomEvent(
+            workspace.containerEl,
+            "touchend",
+            this.touchEndHandler.bind(this),
+            {
+                capture: true,
+                passive: true,
+            },
+        );
+
         this.onLayoutReady(() => {
             // Wait for containerEl before attaching resize observer.
             const observer = new ResizeObserver(() => {
@@ -119,6 +135,7 @@ export class Events {
                         newLeaf?: boolean,
                         openViewState?: OpenViewState,
                     ) {
+                        plugin.events.linkOpenHandlers.forEach((callback) => callback());
                         plugin.events.isOpeningWithLink = true;
 
                         const args = [linktext, sourcePath, newLeaf, openViewState];
@@ -156,6 +173,47 @@ export class Events {
         this.shouldSkipNextViewUpdate = true;
     }
 
+    /**
+     * Returns the note shown in an editor.
+     * Editors outside the active leaf, e.g., hover editors, might show a different note.
+     */
+    public getEditorFile(editor: Editor): TFile | null {
+        return this.getStateFile(editor.cm.state);
+    }
+
+    /**
+     * Returns the note of an editor state.
+     * Used by editor extensions, which have no access to the editor.
+     */
+    public getStateFile(state: EditorState): TFile | null {
+        return state.field(editorInfoField, false)?.file ?? null;
+    }
+
+    /**
+     * Returns true, if the editor state belongs to an editor in Live Preview.
+     */
+    public isLivePreview(state: EditorState): boolean {
+        return state.field(editorLivePreviewField, false) ?? false;
+    }
+
+    /**
+     * Registers a DOM event on the document of the main window
+     * and of every popout window opened afterwards.
+     */
+    private registerDocumentEvent<K extends keyof DocumentEventMap>(
+        type: K,
+        callback: (ev: DocumentEventMap[K]) => void,
+        options?: AddEventListenerOptions,
+    ): void {
+        this.plugin.registerDomEvent(activeDocument, type, callback, options);
+
+        this.plugin.registerEvent(
+            this.plugin.app.workspace.on("window-open", (_win, window) => {
+                this.plugin.registerDomEvent(window.document, type, callback, options);
+            }),
+        );
+    }
+
     /**
      * Registers a callback for plugin unload.
      * @param callback Called with the plugin is unloaded.
@@ -164,6 +222,14 @@ export class Events {
         this.unloadCallbacks.add(callback);
     }
 
+    /**
+     * Registers a callback when the config of the vault changes, e.g., Vim mode is toggled.
+     * @param callback Called after the config changed.
+     */
+    public onConfigChange(callback: () => void): void {
+        this.plugin.registerEvent(this.plugin.app.vault.on("config-changed", callback));
+    }
+
     /**
      * Registers a callback for cursor updates in the editor.
      * @param callback Called with the editor, whether the activeDocument changed, and whether Vim mode switched.
@@ -182,6 +248,14 @@ export class Events {
         this.plugin.registerEvent(this.plugin.app.vault.on("delete", callback));
     }
 
+    /**
+     * Registers a callback that is triggered when a file in the vault is modified.
+     * @param callback Receives the modified file.
+     */
+    public onFileModify(callback: (file: TAbstractFile) => void): void {
+        this.plugin.registerEvent(this.plugin.app.vault.on("modify", callback));
+    }
+
     /**
      * Registers a callback that is triggered when a file is opened in the workspace.
      * @param callback Receives the opened file, or null if no file is active.
@@ -211,7 +285,7 @@ export class Events {
      * @param callback Receives the KeyboardEvent.
      */
     public onKeyDown(callback: (ev: KeyboardEvent) => void): void {
-        this.plugin.registerDomEvent(activeDocument, "keydown", callback, { passive: true });
+        this.registerDocumentEvent("keydown", callback, { passive: true });
     }
 
     /**
@@ -219,7 +293,7 @@ export class Events {
      * @param callback Receives the KeyboardEvent.
      */
     public onKeyUp(callback: (ev: KeyboardEvent) => void): void {
-        this.plugin.registerDomEvent(activeDocument, "keyup", callback, { passive: true });
+        this.registerDocumentEvent("keyup", callback, { passive: true });
     }
 
     /**
@@ -238,6 +312,22 @@ export class Events {
         this.plugin.registerEvent(this.plugin.app.workspace.on("active-leaf-change", callback));
     }
 
+    /**
+     * Registers a callback that is triggered right before a link is opened.
+     * @param callback Called while the view still shows the position of the link.
+     */
+    public onLinkOpen(callback: () => void): void {
+        this.linkOpenHandlers.add(callback);
+    }
+
+    /**
+     * Registers a callback when the metadata of a file changes, e.g., its frontmatter.
+     * @param callback Receives the file whose metadata changed.
+     */
+    public onMetadataChange(callback: (file: TFile) => void): void {
+        this.plugin.registerEvent(this.plugin.app.metadataCache.on("changed", callback));
+    }
+
     /**
      * Registers a callback for mouseup events.
      * Desktop only; does nothing on mobile.
@@ -245,7 +335,7 @@ export class Events {
      */
     public onMouseUp(callback: (ev: MouseEvent) => void): void {
         if (Platform.isDesktop) {
-            this.plugin.registerDomEvent(activeDocument, "mouseup", callback, { passive: true });
+            this.registerDocumentEvent("mouseup", callback, { passive: true });
         }
     }
 
@@ -258,22 +348,48 @@ export class Events {
     }
 
     /**
-     * Registers a callback for scroll events anywhere in the activeDocument.
+     * Registers a callback for resize events of the visual viewport,
+     * e.g., when the on-screen keyboard opens or closes.
+     * Mobile only; does nothing on desktop.
+     * @param callback Called whenever the visual viewport is resized.
+     */
+    public onVisualViewportResize(callback: () => void): void {
+        const viewport = window.visualViewport;
+        if (!Platform.isMobile || !viewport) return;
+
+        viewport.addEventListener("resize", callback, { passive: true });
+        this.plugin.register(() => {
+            viewport.removeEventListener("resize", callback);
+        });
+    }
+
+    /**
+     * Registers a callback for selection jumps caused by searching,
+     * e.g., with the search bar of Obsidian or the Vim motions /, ?, n and N.
+     * Called right before the cursor update callbacks of the same update.
+     * @param callback Receives the editor, in which the search jumped.
+     */
+    public onSearchJump(callback: (editor: Editor) => void): void {
+        this.searchJumpHandlers.add(callback);
+    }
+
+    /**
+     * Registers a callback for scroll events anywhere in the document of any window.
      * @param callback Receives the scroll Event.
      */
     public onScroll(callback: (ev: Event) => void): void {
-        this.plugin.registerDomEvent(activeDocument, "scroll", callback, {
+        this.registerDocumentEvent("scroll", callback, {
             capture: true,
             passive: true,
         });
     }
 
     /**
-     * Registers a callback for scroll-end events anywhere in the activeDocument.
+     * Registers a callback for scroll-end events anywhere in the document of any window.
      * @param callback Receives the scrollend Event.
      */
     public onScrollEnd(callback: (ev: Event) => void): void {
-        this.plugin.registerDomEvent(activeDocument, "scrollend", callback, {
+        this.registerDocumentEvent("scrollend", callback, {
             capture: true,
             passive: true,
         });
@@ -287,6 +403,22 @@ export class Events {
         this.touchHandlers.add(callback);
     }
 
+    /**
+     * Registers a callback for touch start events.
+     * @param callback Receives the TouchEvent.
+     */
+    public onTouchStart(callback: (event: TouchEvent) => void): void {
+        this.touchStartHandlers.add(callback);
+    }
+
+    /**
+     * Registers a callback for touch end events.
+     * @param callback Receives the TouchEvent.
+     */
+    public onTouchEnd(callback: (event: TouchEvent) => void): void {
+        this.touchEndHandlers.add(callback);
+    }
+
     /**
      * Registers a callback for wheel events that can cancel further processing.
      * @param callback Should return true if the event should not be handled further.
@@ -316,6 +448,20 @@ export class Events {
     private touchStartHandler(event: TouchEvent): void {
         this.lastTouchX = event.touches[0].clientX;
         this.lastTouchY = event.touches[0].clientY;
+
+        for (const callback of this.touchStartHandlers) {
+            callback(event);
+        }
+    }
+
+    /**
+     * Handles touchend events to invoke registered touch end callbacks.
+     * @param event The TouchEvent from the DOM.
+     */
+    private touchEndHandler(event: TouchEvent): void {
+        for (const callback of this.touchEndHandlers) {
+            callback(event);
+        }
     }
 
     /**
@@ -365,10 +511,14 @@ export class Events {
         this.skipViewUpdate = true;
         window.requestAnimationFrame(() => (this.skipViewUpdate = false));
 
-        // Cursor updated in the active editor.
-        const editor = this.plugin.app.workspace.activeEditor?.editor;
+        // Editor which produced the update; might be a canvas card, hover or embedded editor.
+        const activeEditor = this.plugin.app.workspace.activeEditor?.editor;
+        const editor = update.state.field(editorInfoField, false)?.editor ?? activeEditor;
         if (!editor) return;
 
+        // Ignore updates of editors in the background, e.g., another pane showing the same note.
+        if (editor !== activeEditor && !update.view.hasFocus) return;
+
         // Only proceed if its a cursor or edit event
         if (!update.selectionSet && !update.docChanged) {
             // Handle geometry events
@@ -378,10 +528,18 @@ export class Events {
             return;
         }
 
+        // Search jumps bypass the heuristics below, as they often select the match.
+        const searchJump = this.isSearchJump(editor, update);
+        if (searchJump) {
+            for (const callback of this.searchJumpHandlers) {
+                callback(editor);
+            }
+        }
+
         // Cancel if selection change is irrelevant.
         // e.g. user copies selected text or changes vim mode.
         let vimModeSwitch = false;
-        if (!update.docChanged) {
+        if (!update.docChanged && !searchJump) {
             const selection = update.state.selection.main;
             const previousSelection = update.startState.selection.main;
 
@@ -406,6 +564,25 @@ export class Events {
         }
     }
 
+    /**
+     * Checks whether a selection change was caused by a search.
+     * Detects CodeMirror search commands, jumps from the search bar of Obsidian,
+     * which has focus meanwhile, and search motions of Vim.
+     */
+    private isSearchJump(editor: Editor, update: ViewUpdate): boolean {
+        if (update.docChanged || !update.selectionSet) return false;
+
+        if (update.transactions.some((tr) => tr.isUserEvent("select.search"))) return true;
+
+        const focusEl = update.view.dom.ownerDocument.activeElement;
+        if (focusEl?.closest(".document-search-container")) return true;
+
+        // The motion is still stored after other commands, so also check the key.
+        const state = editor.cm.cm?.state;
+        if (state?.vim?.lastMotion?.name !== "findNext") return false;
+        return ["/", "?", "n", "N", "*", "#"].includes(state.vimPlugin?.lastKeydown);
+    }
+
     /**
      * Handles wheel events on desktop, invoking cancelling and extended wheel callbacks.
      * Traverses DOM to find the actual scrollable element and respects scroll bounds.
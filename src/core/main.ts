@@ -1,6 +1,10 @@
 import { Plugin } from "obsidian";
 
 import { CodeBlock } from "@components/codeblock";
+import { CodeBlockGutter } from "@components/codeblockgutter";
+import { CodeBlockHeight } from "@components/codeblockheight";
+import { CodeBlockScrollbar } from "@components/codeblockscrollbar";
+import { CodeBlockWrap } from "@components/codeblockwrap";
 import { FileTree } from "@components/filetree";
 import { MathJax } from "@components/mathjax";
 import { FollowCursor } from "@components/followcursor";
@@ -9,9 +13,13 @@ import { RestoreScroll } from "@components/restorescroll";
 import { Scrollbar } from "@components/scrollbar";
 import { PreviewScrollKeys } from "@components/previewscrollkeys";
 import { ImageZoom } from "@components/imagezoom";
+import { JumpList } from "@components/jumplist";
 import { LineLength } from "@components/linelength";
+import { Marks } from "@components/marks";
 import { Commands } from "@components/commands";
 import { ScrollButtons } from "@components/scrollbuttons";
+import { ScrollPastEnd } from "@components/scrollpastend";
+import { Table } from "@components/table";
 
 import { Events } from "@core/events";
 import { ScrollingSettingTab, ScrollingPluginSettings, DEFAULT_SETTINGS } from "@core/settings";
@@ -21,6 +29,10 @@ export default class ScrollingPlugin extends Plugin {
     events!: Events;
 
     codeBlock!: CodeBlock;
+    codeBlockGutter!: CodeBlockGutter;
+    codeBlockHeight!: CodeBlockHeight;
+    codeBlockScrollbar!: CodeBlockScrollbar;
+    codeBlockWrap!: CodeBlockWrap;
     fileTree!: FileTree;
     mathJax!: MathJax;
     followCursor!: FollowCursor;
@@ -29,9 +41,13 @@ export default class ScrollingPlugin extends Plugin {
     scrollbar!: Scrollbar;
     previewScrollKeys!: PreviewScrollKeys;
     imageZoom!: ImageZoom;
+    jumpList!: JumpList;
     lineLength!: LineLength;
+    marks!: Marks;
     commands!: Commands;
     scrollButtons!: ScrollButtons;
+    scrollPastEnd!: ScrollPastEnd;
+    table!: Table;
 
     async onload() {
         await this.loadSettings();
@@ -40,6 +56,10 @@ export default class ScrollingPlugin extends Plugin {
         this.events = new Events(this);
 
         this.codeBlock = new CodeBlock(this);
+        this.codeBlockGutter = new CodeBlockGutter(this);
+        this.codeBlockHeight = new CodeBlockHeight(this);
+        this.codeBlockScrollbar = new CodeBlockScrollbar(this);
+        this.codeBlockWrap = new CodeBlockWrap(this);
         this.fileTree = new FileTree(this);
         this.mathJax = new MathJax(this);
         this.followCursor = new FollowCursor(this);
@@ -48,13 +68,18 @@ export default class ScrollingPlugin extends Plugin {
         this.scrollbar = new Scrollbar(this);
         this.previewScrollKeys = new PreviewScrollKeys(this);
         this.imageZoom = new ImageZoom(this);
+        this.jumpList = new JumpList(this);
         this.lineLength = new LineLength(this);
+        this.marks = new Marks(this);
         this.commands = new Commands(this);
         this.scrollButtons = new ScrollButtons(this);
+        this.scrollPastEnd = new ScrollPastEnd(this);
+        this.table = new Table(this);
 
         this.events.postInit();
 
         await this.restoreScroll.loadStatesFile();
+        await this.marks.loadMarksFile();
     }
 
     onunload() {
@@ -62,7 +87,12 @@ export default class ScrollingPlugin extends Plugin {
     }
 
     async loadSettings() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        // Copy defaults, as nested settings are modified in place.
+        this.settings = Object.assign(
+            {},
+            structuredClone(DEFAULT_SETTINGS),
+            await this.loadData(),
+        );
 
         for (const key in this.settings) {
             if (!(key in DEFAULT_SETTINGS)) {
@@ -1,23 +1,83 @@
 import { Platform, PluginSettingTab, Setting, SliderComponent, setIcon } from "obsidian";
 
 import type { default as ScrollingPlugin } from "@core/main";
+import { clamp } from "@core/util";
+
+export interface FollowCursorFolderRule {
+    /** Path of the folder relative to the vault root. Empty for the entire vault. */
+    folder: string;
+    /** Whether the centered cursor is enabled in the folder. */
+    enabled: boolean;
+    /** Trigger distance in the folder. Uses the default if null. (0-100) */
+    radius: number | null;
+}
+
+export interface FollowCursorNodeRule {
+    /** Behavior while the cursor is inside the node. Values: default, disable, radius */
+    behavior: string;
+    /** Trigger distance if the behavior is radius. (0-100) */
+    radius: number;
+}
 
 export interface ScrollingPluginSettings {
     /** Scroll viewport when moving the cursor or editing. */
     followCursorEnabled: boolean;
+    /** Position on the screen where the cursor is kept. From top to bottom. (0-100) */
+    followCursorAnchor: number;
+    /** When to trigger scrolling. Values: radius, lines */
+    followCursorTriggerMode: string;
     /** Distance the cursor may be moved from the center. (0-100) */
     followCursorRadius: number;
+    /** Minimum number of lines above the cursor in lines mode. (0-30) */
+    followCursorLinesAbove: number;
+    /** Minimum number of lines below the cursor in lines mode. (0-30) */
+    followCursorLinesBelow: number;
     /** Centering animation smoothness. (0-100) */
     followCursorSmoothness: number;
     /** Skip scroll animation when editing. */
     followCursorInstantEditScroll: boolean;
+    /** Keep all cursors visible when using multiple cursors. */
+    followCursorMultiCursorEnabled: boolean;
+    /** Scroll horizontally if lines do not wrap. */
+    followCursorHorizontalEnabled: boolean;
+    /** Minimum number of characters left and right of the cursor. (0-30) */
+    followCursorSideScrollOff: number;
     /** Trigger scroll on mouse click. */
     followCursorEnableMouse: boolean;
     /** Trigger scroll on mouse selection. (hidden) */
     followCursorEnableSelection: boolean;
+    /** Overrides for notes in specific folders. Frontmatter takes precedence. */
+    followCursorFolderRules: FollowCursorFolderRule[];
+    /** Center the cursor when jumping to search matches. */
+    followCursorCenterSearch: boolean;
+    /** Behavior inside code blocks, tables, frontmatter and math, keyed by syntax node type. */
+    followCursorNodeRules: Record<string, FollowCursorNodeRule>;
+
+    /** Add padding below the end of notes. */
+    scrollPastEndEnabled: boolean;
+    /** Padding below the end of notes relative to the viewport height. (0-100) */
+    scrollPastEndPercentage: number;
+
+    /** Easing curve of scroll animations. Values: linear, ease-out, ease-in-out, spring */
+    animationEasing: string;
 
     /** Disable code wrapping & enable horizontal code scrolling. */
     codeBlockScrollEnabled: boolean;
+    /** Comma separated languages, which keep wrapping. */
+    codeBlockWrapLanguages: string;
+    /** Comma separated languages, which scroll horizontally. All other languages keep wrapping. Empty for all languages. */
+    codeBlockScrollLanguages: string;
+    /** Show a scrollbar below horizontally scrollable code blocks in the editor. */
+    codeBlockScrollbarEnabled: boolean;
+    /** Show line numbers in code blocks of the editor, which stay in place while scrolling. */
+    codeBlockLineNumbersEnabled: boolean;
+    /** Limit the height of long code blocks and scroll inside of them. */
+    codeBlockMaxHeightEnabled: boolean;
+    /** Maximum number of visible code lines. (5-100) */
+    codeBlockMaxLines: number;
+
+    /** Disable table wrapping & enable horizontal table scrolling. */
+    tableScrollEnabled: boolean;
 
     /** Which position to restore. Values: scroll, cursor, top, bottom */
     restoreScrollMode: string;
@@ -33,6 +93,8 @@ export interface ScrollingPluginSettings {
     restoreScrollPdf: boolean;
     /** Enable scroll position in bases. */
     restoreScrollBases: boolean;
+    /** Restore horizontal scroll position of code blocks. */
+    restoreScrollCodeBlocks: boolean;
     /** Even restore position if Markdown link to file was used. */
     restoreScrollFileLink: boolean;
     /** Only restore position once per file per session. */
@@ -41,6 +103,8 @@ export interface ScrollingPluginSettings {
     restoreScrollFileEnabled: boolean;
     /** Path to cache file. */
     restoreScrollFilePath: string;
+    /** Store positions separately for each device, when the vault is synced. */
+    restoreScrollPerDevice: boolean;
 
     /** Zoom when hovering over images. Desktop only. (Zoom guesture & vertical scroll while holding ctrl) */
     imageZoomEnabled: boolean;
@@ -109,13 +173,41 @@ export interface ScrollingPluginSettings {
 
 export const DEFAULT_SETTINGS: ScrollingPluginSettings = {
     followCursorEnabled: false,
+    followCursorAnchor: 50,
+    followCursorTriggerMode: "radius",
     followCursorRadius: 50,
+    followCursorLinesAbove: 5,
+    followCursorLinesBelow: 5,
     followCursorSmoothness: 25,
     followCursorInstantEditScroll: true,
+    followCursorMultiCursorEnabled: false,
+    followCursorHorizontalEnabled: false,
+    followCursorSideScrollOff: 5,
     followCursorEnableMouse: false,
     followCursorEnableSelection: false,
+    followCursorFolderRules: [],
+    followCursorCenterSearch: true,
+    followCursorNodeRules: {
+        "hmd-codeblock": { behavior: "default", radius: 50 },
+        "HyperMD-table": { behavior: "default", radius: 50 },
+        "hmd-frontmatter": { behavior: "default", radius: 50 },
+        math: { behavior: "default", radius: 50 },
+    },
+
+    scrollPastEndEnabled: false,
+    scrollPastEndPercentage: 50,
+
+    animationEasing: "ease-out",
 
     codeBlockScrollEnabled: false,
+    codeBlockWrapLanguages: "text, markdown, prompt",
+    codeBlockScrollLanguages: "",
+    codeBlockScrollbarEnabled: true,
+    codeBlockLineNumbersEnabled: false,
+    codeBlockMaxHeightEnabled: false,
+    codeBlockMaxLines: 20,
+
+    tableScrollEnabled: false,
 
     restoreScrollMode: "top",
     restoreScrollLimit: -1,
@@ -123,10 +215,12 @@ export const DEFAULT_SETTINGS: ScrollingPluginSettings = {
     restoreScrollDelay: 5,
     restoreScrollPdf: false,
     restoreScrollBases: false,
+    restoreScrollCodeBlocks: true,
     restoreScrollFileLink: true,
     restoreScrollInitialOnly: false,
     restoreScrollFileEnabled: true,
     restoreScrollFilePath: undefined,
+    restoreScrollPerDevice: false,
 
     imageZoomEnabled: false,
 
@@ -182,7 +276,11 @@ export class ScrollingSettingTab extends PluginSettingTab {
         this.containerEl.empty();
 
         this.displayFollowCursorSettings();
+        this.displayScrollPastEndSettings();
+        this.displayAnimationSettings();
         this.displayCodeBlockSettings();
+        this.displayCodeBlockHeightSettings();
+        this.displayTableSettings();
         this.displayRestoreScrollSettings();
         this.displayImageZoomSettings();
         this.displayMathJaxSettings();
@@ -320,19 +418,86 @@ export class ScrollingSettingTab extends PluginSettingTab {
         this.settingsEnabled = this.plugin.settings.followCursorEnabled;
 
         this.createSetting(
-            "Trigger distance",
-            "How far the cursor can move from the center before scrolling (%).\n0% keeps the cursor perfectly centered.",
-            () => (this.plugin.settings.followCursorRadius = DEFAULT_SETTINGS.followCursorRadius),
+            "Anchor position",
+            "Where on the screen the cursor is kept (%).\n0% is the top, 50% the center and 100% the bottom of the screen.",
+            () => (this.plugin.settings.followCursorAnchor = DEFAULT_SETTINGS.followCursorAnchor),
         ).addSlider((slider) =>
             slider
                 .setLimits(0, 100, 1)
-                .setValue(this.plugin.settings.followCursorRadius)
+                .setValue(this.plugin.settings.followCursorAnchor)
                 .onChange(async (value) => {
-                    this.plugin.settings.followCursorRadius = value;
+                    this.plugin.settings.followCursorAnchor = value;
                     await this.plugin.saveSettings();
                 }),
         );
 
+        this.createSetting(
+            "Trigger mode",
+            "Scroll when the cursor leaves a distance around the center, or keep a number of lines visible above and below the cursor.",
+            () =>
+                (this.plugin.settings.followCursorTriggerMode =
+                    DEFAULT_SETTINGS.followCursorTriggerMode),
+        ).addDropdown((dropdown) =>
+            dropdown
+                .addOption("radius", "Distance from center")
+                .addOption("lines", "Lines above and below")
+                .setValue(this.plugin.settings.followCursorTriggerMode)
+                .onChange(async (value) => {
+                    this.plugin.settings.followCursorTriggerMode = value;
+                    this.display();
+                    await this.plugin.saveSettings();
+                }),
+        );
+
+        if (this.plugin.settings.followCursorTriggerMode === "lines") {
+            this.createSetting(
+                "Lines above cursor",
+                "Minimum number of lines to keep visible above the cursor.",
+                () =>
+                    (this.plugin.settings.followCursorLinesAbove =
+                        DEFAULT_SETTINGS.followCursorLinesAbove),
+            ).addSlider((slider) =>
+                slider
+                    .setLimits(0, 30, 1)
+                    .setValue(this.plugin.settings.followCursorLinesAbove)
+                    .onChange(async (value) => {
+                        this.plugin.settings.followCursorLinesAbove = value;
+                        await this.plugin.saveSettings();
+                    }),
+            );
+
+            this.createSetting(
+                "Lines below cursor",
+                "Minimum number of lines to keep visible below the cursor.",
+                () =>
+                    (this.plugin.settings.followCursorLinesBelow =
+                        DEFAULT_SETTINGS.followCursorLinesBelow),
+            ).addSlider((slider) =>
+                slider
+                    .setLimits(0, 30, 1)
+                    .setValue(this.plugin.settings.followCursorLinesBelow)
+                    .onChange(async (value) => {
+                        this.plugin.settings.followCursorLinesBelow = value;
+                        await this.plugin.saveSettings();
+                    }),
+            );
+        } else {
+            this.createSetting(
+                "Trigger distance",
+                "How far the cursor can move from the anchor before scrolling (%).\n0% keeps the cursor exactly at the anchor.",
+                () =>
+                    (this.plugin.settings.followCursorRadius = DEFAULT_SETTINGS.followCursorRadius),
+            ).addSlider((slider) =>
+                slider
+                    .setLimits(0, 100, 1)
+                    .setValue(this.plugin.settings.followCursorRadius)
+                    .onChange(async (value) => {
+                        this.plugin.settings.followCursorRadius = value;
+                        await this.plugin.saveSettings();
+                    }),
+            );
+        }
+
         this.createSetting(
             "Animation smoothness",
             "Duration of the scroll animation.",
@@ -361,6 +526,49 @@ export class ScrollingSettingTab extends PluginSettingTab {
                 }),
         );
 
+        this.createSetting(
+            "Multiple cursors",
+            "Keep as many cursors visible as possible when using multiple cursors.\nFalls back to the primary cursor if the others do not fit on the screen.",
+        ).addToggle((toggle) =>
+            toggle
+                .setValue(this.plugin.settings.followCursorMultiCursorEnabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.followCursorMultiCursorEnabled = value;
+                    await this.plugin.saveSettings();
+                }),
+        );
+
+        this.createSetting(
+            "Horizontal scrolling",
+            "Also keep the cursor visible horizontally, when long lines do not wrap.",
+        ).addToggle((toggle) =>
+            toggle
+                .setValue(this.plugin.settings.followCursorHorizontalEnabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.followCursorHorizontalEnabled = value;
+                    this.display();
+                    await this.plugin.saveSettings();
+                }),
+        );
+
+        if (this.plugin.settings.followCursorHorizontalEnabled) {
+            this.createSetting(
+                "Characters beside cursor",
+                "Minimum number of characters to keep visible left and right of the cursor.",
+                () =>
+                    (this.plugin.settings.followCursorSideScrollOff =
+                        DEFAULT_SETTINGS.followCursorSideScrollOff),
+            ).addSlider((slider) =>
+                slider
+                    .setLimits(0, 30, 1)
+                    .setValue(this.plugin.settings.followCursorSideScrollOff)
+                    .onChange(async (value) => {
+                        this.plugin.settings.followCursorSideScrollOff = value;
+                        await this.plugin.saveSettings();
+                    }),
+            );
+        }
+
         if (Platform.isDesktop) {
             if (!this.plugin.settings.enableExperimentalSettings) {
                 this.plugin.settings.followCursorEnableMouse =
@@ -398,6 +606,194 @@ export class ScrollingSettingTab extends PluginSettingTab {
                 );
             }
         }
+
+        this.displayFollowCursorFolderRules();
+        this.displayFollowCursorNodeRules();
+
+        this.createSetting(
+            "Center search matches",
+            "Always center the cursor when jumping to a search match, including Vim search with /, n and N.\nWorks independently of the trigger distance.",
+        ).addToggle((toggle) =>
+            toggle
+                .setValue(this.plugin.settings.followCursorCenterSearch)
+                .onChange(async (value) => {
+                    this.plugin.settings.followCursorCenterSearch = value;
+                    await this.plugin.saveSettings();
+                }),
+        );
+    }
+
+    private displayFollowCursorFolderRules() {
+        this.settingsEnabled = true;
+
+        this.createSetting(
+            "Folder rules",
+            "Enable or disable the centered cursor for notes in specific folders.\nSingle notes can override this with the properties 'scrolling-follow-cursor' and 'scrolling-follow-cursor-radius'.",
+        ).addButton((button) =>
+            button.setButtonText("Add rule").onClick(async () => {
+                this.plugin.settings.followCursorFolderRules.push({
+                    folder: "",
+                    enabled: !this.plugin.settings.followCursorEnabled,
+                    radius: null,
+                });
+                this.display();
+                await this.plugin.saveSettings();
+            }),
+        );
+
+        const rules = this.plugin.settings.followCursorFolderRules;
+        rules.forEach((rule, index) => {
+            const onChange = async () => {
+                this.plugin.followCursor.updateOverrides();
+                await this.plugin.saveSettings();
+            };
+
+            this.createSetting(`Folder rule ${index + 1}`)
+                .addText((input) =>
+                    input
+                        .setPlaceholder("Folder path")
+                        .setValue(rule.folder)
+                        .onChange(async (value) => {
+                            rule.folder = value;
+                            await onChange();
+                        }),
+                )
+                .addDropdown((dropdown) =>
+                    dropdown
+                        .addOption("enabled", "Enabled")
+                        .addOption("disabled", "Disabled")
+                        .setValue(rule.enabled ? "enabled" : "disabled")
+                        .onChange(async (value) => {
+                            rule.enabled = value === "enabled";
+                            await onChange();
+                        }),
+                )
+                .addText((input) =>
+                    input
+                        .setPlaceholder("Default distance")
+                        .setValue(rule.radius === null ? "" : rule.radius.toString())
+                        .onChange(async (value) => {
+                            const radius = Number.parseFloat(value);
+                            rule.radius = isNaN(radius) ? null : clamp(radius, 0, 100);
+                            await onChange();
+                        }),
+                )
+                .addExtraButton((button) =>
+                    button
+                        .setIcon("trash")
+                        .setTooltip("Remove rule")
+                        .onClick(async () => {
+                            rules.splice(index, 1);
+                            this.display();
+                            await onChange();
+                        }),
+                );
+        });
+    }
+
+    private displayFollowCursorNodeRules() {
+        const names: Record<string, string> = {
+            "hmd-codeblock": "Inside code blocks",
+            "HyperMD-table": "Inside tables",
+            "hmd-frontmatter": "Inside properties",
+            math: "Inside math blocks",
+        };
+
+        for (const nodeType of Object.keys(names)) {
+            const rules = this.plugin.settings.followCursorNodeRules;
+            rules[nodeType] ??= { ...DEFAULT_SETTINGS.followCursorNodeRules[nodeType] };
+            const rule = rules[nodeType];
+
+            const setting = this.createSetting(
+                names[nodeType],
+                "Behavior of the centered cursor while the cursor is inside this element.",
+                () => (rules[nodeType] = { ...DEFAULT_SETTINGS.followCursorNodeRules[nodeType] }),
+            ).addDropdown((dropdown) =>
+                dropdown
+                    .addOption("default", "Default")
+                    .addOption("disable", "Disabled")
+                    .addOption("radius", "Custom trigger distance")
+                    .setValue(rule.behavior)
+                    .onChange(async (value) => {
+                        rule.behavior = value;
+                        this.display();
+                        await this.plugin.saveSettings();
+                    }),
+            );
+
+            if (rule.behavior === "radius") {
+                setting.addSlider((slider) =>
+                    slider
+                        .setLimits(0, 100, 1)
+                        .setValue(rule.radius)
+                        .onChange(async (value) => {
+                            rule.radius = value;
+                            await this.plugin.saveSettings();
+                        }),
+                );
+            }
+        }
+    }
+
+    private displayScrollPastEndSettings() {
+        this.createHeading("Scroll past end");
+
+        this.createSetting(
+            "Enable",
+            "Allow scrolling beyond the last line, so that the end of a note can be centered.",
+        ).addToggle((toggle) =>
+            toggle.setValue(this.plugin.settings.scrollPastEndEnabled).onChange(async (value) => {
+                this.plugin.settings.scrollPastEndEnabled = value;
+                this.plugin.scrollPastEnd.updateStyle();
+                this.display();
+                await this.plugin.saveSettings();
+            }),
+        );
+
+        this.settingsEnabled = this.plugin.settings.scrollPastEndEnabled;
+
+        this.createSetting(
+            "Bottom padding",
+            "Space below the last line as percentage of the viewport height (%).",
+            () => {
+                this.plugin.settings.scrollPastEndPercentage =
+                    DEFAULT_SETTINGS.scrollPastEndPercentage;
+                this.plugin.scrollPastEnd.updateStyle();
+            },
+        ).addSlider((slider) =>
+            slider
+                .setLimits(0, 100, 1)
+                .setValue(this.plugin.settings.scrollPastEndPercentage)
+                .onChange(async (value) => {
+                    this.plugin.settings.scrollPastEndPercentage = value;
+                    this.plugin.scrollPastEnd.updateStyle();
+                    await this.plugin.saveSettings();
+                }),
+        );
+    }
+
+    private displayAnimationSettings() {
+        this.createHeading(
+            "Scroll animations",
+            "Applies to the centered cursor, reading mode keybinds and scroll buttons.",
+        );
+
+        this.createSetting(
+            "Easing curve",
+            "How the scroll speed changes over the course of an animation.",
+            () => (this.plugin.settings.animationEasing = DEFAULT_SETTINGS.animationEasing),
+        ).addDropdown((dropdown) =>
+            dropdown
+                .addOption("linear", "Linear")
+                .addOption("ease-out", "Ease out")
+                .addOption("ease-in-out", "Ease in and out")
+                .addOption("spring", "Spring")
+                .setValue(this.plugin.settings.animationEasing)
+                .onChange(async (value) => {
+                    this.plugin.settings.animationEasing = value;
+                    await this.plugin.saveSettings();
+                }),
+        );
     }
 
     private displayCodeBlockSettings() {
@@ -410,6 +806,130 @@ export class ScrollingSettingTab extends PluginSettingTab {
             toggle.setValue(this.plugin.settings.codeBlockScrollEnabled).onChange(async (value) => {
                 this.plugin.settings.codeBlockScrollEnabled = value;
                 this.plugin.codeBlock.updateStyle();
+                this.plugin.codeBlockWrap.updateStyle();
+                this.plugin.codeBlockScrollbar.updateStyle();
+                this.plugin.codeBlockGutter.updateStyle();
+                this.plugin.commands.updateVimKeys();
+                this.display();
+                await this.plugin.saveSettings();
+            }),
+        );
+
+        this.settingsEnabled = this.plugin.settings.codeBlockScrollEnabled;
+
+        this.createSetting(
+            "Wrapped languages",
+            "Comma separated list of languages, which keep wrapping.\nSingle code blocks can be changed with the flags 'wrap' and 'nowrap', e.g. ```python nowrap.",
+            () => {
+                this.plugin.settings.codeBlockWrapLanguages =
+                    DEFAULT_SETTINGS.codeBlockWrapLanguages;
+                this.plugin.codeBlockWrap.updateStyle();
+            },
+        ).addText((text) =>
+            text
+                .setPlaceholder("Languages")
+                .setValue(this.plugin.settings.codeBlockWrapLanguages)
+                .onChange(async (value) => {
+                    this.plugin.settings.codeBlockWrapLanguages = value;
+                    this.plugin.codeBlockWrap.updateStyle();
+                    await this.plugin.saveSettings();
+                }),
+        );
+
+        this.createSetting(
+            "Scrolled languages",
+            "Comma separated list of languages, which scroll horizontally. All other languages keep wrapping.\nLeave empty to scroll all languages.",
+            () => {
+                this.plugin.settings.codeBlockScrollLanguages =
+                    DEFAULT_SETTINGS.codeBlockScrollLanguages;
+                this.plugin.codeBlockWrap.updateStyle();
+            },
+        ).addText((text) =>
+            text
+                .setPlaceholder("All languages")
+                .setValue(this.plugin.settings.codeBlockScrollLanguages)
+                .onChange(async (value) => {
+                    this.plugin.settings.codeBlockScrollLanguages = value;
+                    this.plugin.codeBlockWrap.updateStyle();
+                    await this.plugin.saveSettings();
+                }),
+        );
+
+        this.createSetting(
+            "Show scrollbar",
+            "Show a thin scrollbar below code blocks, which are wider than the editor.",
+        ).addToggle((toggle) =>
+            toggle
+                .setValue(this.plugin.settings.codeBlockScrollbarEnabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.codeBlockScrollbarEnabled = value;
+                    this.plugin.codeBlockScrollbar.updateStyle();
+                    await this.plugin.saveSettings();
+                }),
+        );
+
+        this.createSetting(
+            "Line numbers",
+            "Show line numbers in code blocks of the editor. Line numbers, indentation guides and fold indicators stay in place while the code scrolls.",
+        ).addToggle((toggle) =>
+            toggle
+                .setValue(this.plugin.settings.codeBlockLineNumbersEnabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.codeBlockLineNumbersEnabled = value;
+                    this.plugin.codeBlockGutter.updateStyle();
+                    await this.plugin.saveSettings();
+                }),
+        );
+    }
+
+    private displayCodeBlockHeightSettings() {
+        this.createHeading("Code block height");
+
+        this.createSetting(
+            "Enable",
+            "Limit the height of long code blocks in reading and live preview mode and scroll inside of them.\nCode blocks expand on click or when the cursor enters them.",
+        ).addToggle((toggle) =>
+            toggle
+                .setValue(this.plugin.settings.codeBlockMaxHeightEnabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.codeBlockMaxHeightEnabled = value;
+                    this.plugin.codeBlockHeight.updateStyle();
+                    this.display();
+                    await this.plugin.saveSettings();
+                }),
+        );
+
+        this.settingsEnabled = this.plugin.settings.codeBlockMaxHeightEnabled;
+
+        this.createSetting(
+            "Maximum lines",
+            "Number of code lines to show before scrolling.",
+            () => {
+                this.plugin.settings.codeBlockMaxLines = DEFAULT_SETTINGS.codeBlockMaxLines;
+                this.plugin.codeBlockHeight.updateStyle();
+            },
+        ).addSlider((slider) =>
+            slider
+                .setLimits(5, 100, 1)
+                .setValue(this.plugin.settings.codeBlockMaxLines)
+                .onChange(async (value) => {
+                    this.plugin.settings.codeBlockMaxLines = value;
+                    this.plugin.codeBlockHeight.updateStyle();
+                    await this.plugin.saveSettings();
+                }),
+        );
+    }
+
+    private displayTableSettings() {
+        this.createHeading("Prevent table wrapping");
+
+        this.createSetting(
+            "Enable",
+            "Prevent table wrapping & allow horizontal scrolling of wide tables in source and preview mode.",
+        ).addToggle((toggle) =>
+            toggle.setValue(this.plugin.settings.tableScrollEnabled).onChange(async (value) => {
+                this.plugin.settings.tableScrollEnabled = value;
+                this.plugin.table.updateStyle();
                 await this.plugin.saveSettings();
             }),
         );
@@ -528,6 +1048,18 @@ export class ScrollingSettingTab extends PluginSettingTab {
                 }),
         );
 
+        this.createSetting(
+            "Enable for code blocks",
+            "Restore horizontal scroll position of code blocks. Requires horizontal code block scrolling.",
+        ).addToggle((toggle) =>
+            toggle
+                .setValue(this.plugin.settings.restoreScrollCodeBlocks)
+                .onChange(async (value) => {
+                    this.plugin.settings.restoreScrollCodeBlocks = value;
+                    await this.plugin.saveSettings();
+                }),
+        );
+
         this.createSetting(
             "Enable for link use",
             "Enable restoring position when clicking links to files (not headings).",
@@ -567,7 +1099,7 @@ export class ScrollingSettingTab extends PluginSettingTab {
 
         this.createSetting(
             "Storage file path",
-            "Where to store scrolling & cursor positions.",
+            "Where to store scrolling & cursor positions.\nTemporary and backup files are kept in the plugin folder.",
         ).addText((input) => {
             input.setValue(this.plugin.settings.restoreScrollFilePath).onChange((value) => {
                 this.proposedRestoreScrollStoreFile = value;
@@ -581,6 +1113,7 @@ export class ScrollingSettingTab extends PluginSettingTab {
                 if (newFile) {
                     this.plugin.settings.restoreScrollFilePath = newFile;
                     this.proposedRestoreScrollStoreFile = null;
+                    await this.plugin.marks.moveMarksFile();
                     await this.plugin.saveSettings();
                 }
             };
@@ -626,6 +1159,16 @@ export class ScrollingSettingTab extends PluginSettingTab {
             confirmButton.onclick = onConfirm;
             confirmButton.disabled = !this.settingsEnabled;
         });
+
+        this.createSetting(
+            "Separate positions per device",
+            "Keep the positions of each device apart, when the vault is synced. Positions of other devices are used until this device stores its own.",
+        ).addToggle((toggle) =>
+            toggle.setValue(this.plugin.settings.restoreScrollPerDevice).onChange(async (value) => {
+                this.plugin.settings.restoreScrollPerDevice = value;
+                await this.plugin.saveSettings();
+            }),
+        );
     }
 
     private displayImageZoomSettings() {
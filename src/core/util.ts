@@ -4,6 +4,35 @@ export function clamp(val: number, min: number, max: number): number {
     return Math.max(min, Math.min(max, val));
 }
 
+/**
+ * Large constant used to artificially extend line length so that
+ * each line does not limit horizontal scrolling individually.
+ * This allows the plugin to handle the scroll boundary uniformly across
+ * all lines of a code block or table instead of relying on their individual widths.
+ */
+export const EXTRA_LINE_LENGTH = 1_000_000;
+
+/** Opening or closing fence of a code block, optionally inside of a callout or quote. */
+export const FENCE_REGEX = /^\s*(?:>\s*)*(`{3,}|~{3,})(.*)$/;
+
+/**
+ * Normalizes the delta values of the event.
+ * Swaps the X and Y axis if the shift key is held and the delta dominates on the Y axis.
+ */
+export function normalizeWheelDelta(event: WheelEvent): { deltaX: number; deltaY: number } {
+    let scale = 1;
+
+    // Approximate line height as 16 pixels
+    if (event.deltaMode === WheelEvent.DOM_DELTA_LINE) scale = 16;
+    else if (event.deltaMode === WheelEvent.DOM_DELTA_PAGE) scale = window.innerHeight;
+
+    if (event.shiftKey && Math.abs(event.deltaX) < Math.abs(event.deltaY)) {
+        return { deltaX: event.deltaY * scale, deltaY: 0 };
+    }
+
+    return { deltaX: event.deltaX * scale, deltaY: event.deltaY * scale };
+}
+
 export function getVimCursor(editor: Editor): HTMLElement | null {
     const cursorLayerList = editor.cm.scrollDOM.getElementsByClassName("cm-vimCursorLayer");
     if (cursorLayerList.length < 1) {
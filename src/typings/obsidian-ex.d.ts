@@ -3658,3 +3658,26 @@ interface CMView extends EditorView {
 interface EditorViewI extends EditorView {
     cm?: CMView;
 }
+
+/**
+ * Vim API of the CodeMirror adapter, which is available if Vim mode is enabled.
+ */
+interface VimApi {
+    defineAction(name: string, action: (cm: unknown, actionArgs: unknown) => void): void;
+    mapCommand(
+        keys: string,
+        type: string,
+        name: string,
+        args?: Record<string, unknown>,
+        extra?: { context?: string },
+    ): void;
+    unmap(lhs: string, context?: string): boolean;
+}
+
+declare global {
+    interface Window {
+        CodeMirrorAdapter?: {
+            Vim?: VimApi;
+        };
+    }
+}
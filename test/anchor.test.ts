@@ -0,0 +1,100 @@
+import { createAnchor, resolveAnchor } from "../src/core/anchor";
+
+const createDoc = (lines: string[]) => ({
+    getLine: (line: number) => lines[line],
+    lineCount: () => lines.length,
+});
+
+const NOTE = [
+    "# Project",
+    "",
+    "## Setup",
+    "",
+    "Install the dependencies first.",
+    "Then run the build script. ^build",
+    "",
+    "```bash",
+    "# not a heading",
+    "npm install",
+    "```",
+    "",
+    "## Usage",
+    "",
+    "x",
+];
+
+/** Headings of the note like in the metadata cache, shifted by the given number of lines. */
+const createHeadings = (offset = 0) =>
+    [
+        { heading: "Project", level: 1, line: 0 },
+        { heading: "Setup", level: 2, line: 2 },
+        { heading: "Usage", level: 2, line: 12 },
+    ].map(({ heading, level, line }) => ({
+        heading,
+        level,
+        position: {
+            start: { line: line + offset, col: 0, offset: 0 },
+            end: { line: line + offset, col: 0, offset: 0 },
+        },
+    }));
+
+describe("createAnchor", () => {
+    test("stores text, block id and heading path", () => {
+        expect(createAnchor(createDoc(NOTE), 4, createHeadings())).toEqual({
+            line: 4,
+            text: "Install the dependencies first.",
+            blockId: "build",
+            blockOffset: -1,
+            headings: ["Project", "Setup"],
+            headingOffset: 2,
+        });
+    });
+
+    test("stops at the nearest heading above the line", () => {
+        const anchor = createAnchor(createDoc(NOTE), 9, createHeadings());
+
+        expect(anchor.headings).toEqual(["Project", "Setup"]);
+        expect(anchor.headingOffset).toBe(7);
+    });
+
+    test("replaces headings of the same level", () => {
+        expect(createAnchor(createDoc(NOTE), 14, createHeadings()).headings).toEqual([
+            "Project",
+            "Usage",
+        ]);
+    });
+});
+
+describe("resolveAnchor", () => {
+    const edited = ["New introduction.", "", ...NOTE];
+
+    test("keeps the line of an unchanged note", () => {
+        const doc = createDoc(NOTE);
+        const headings = createHeadings();
+        expect(resolveAnchor(doc, createAnchor(doc, 9, headings), headings)).toBe(9);
+    });
+
+    test("follows the block id", () => {
+        const anchor = createAnchor(createDoc(NOTE), 4, createHeadings());
+        const doc = createDoc(edited.map((line) => line.replace("first", "")));
+
+        expect(resolveAnchor(doc, anchor)).toBe(6);
+    });
+
+    test("follows the text of the line", () => {
+        const anchor = createAnchor(createDoc(NOTE), 9, createHeadings());
+        expect(resolveAnchor(createDoc(edited), anchor)).toBe(11);
+    });
+
+    test("falls back to the heading path", () => {
+        const anchor = createAnchor(createDoc(NOTE), 13, createHeadings());
+        const doc = createDoc(["", "", ...NOTE.slice(0, 13), "changed"]);
+
+        expect(resolveAnchor(doc, anchor, createHeadings(2))).toBe(15);
+    });
+
+    test("returns null if nothing is found", () => {
+        const anchor = createAnchor(createDoc(NOTE), 9, createHeadings());
+        expect(resolveAnchor(createDoc(["unrelated", "content"]), anchor)).toBeNull();
+    });
+});
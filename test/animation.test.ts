@@ -0,0 +1,98 @@
+import { Animation, getEasing } from "../src/core/animation";
+
+describe("getEasing", () => {
+    test.each(["linear", "ease-out", "ease-in-out", "spring"])("%s starts at 0", (name) => {
+        expect(getEasing(name)(0)).toBeCloseTo(0);
+    });
+
+    test.each(["linear", "ease-out", "ease-in-out", "spring"])("%s ends at 1", (name) => {
+        expect(getEasing(name)(1)).toBeCloseTo(1);
+    });
+
+    test("ease-out is ahead of linear", () => {
+        expect(getEasing("ease-out")(0.5)).toBeGreaterThan(0.5);
+    });
+
+    test("ease-in-out is symmetric", () => {
+        const easing = getEasing("ease-in-out");
+        expect(easing(0.5)).toBeCloseTo(0.5);
+        expect(easing(0.25)).toBeCloseTo(1 - easing(0.75));
+    });
+
+    test("spring overshoots the goal", () => {
+        const easing = getEasing("spring");
+        expect(easing(0.3)).toBeGreaterThan(1);
+    });
+
+    test("falls back to linear for unknown names", () => {
+        expect(getEasing("unknown")(0.3)).toBe(0.3);
+    });
+});
+
+describe("Animation", () => {
+    let now: number;
+    let frames: FrameRequestCallback[];
+
+    beforeEach(() => {
+        now = 0;
+        frames = [];
+        jest.spyOn(performance, "now").mockImplementation(() => now);
+        jest.spyOn(window, "requestAnimationFrame").mockImplementation((callback) => {
+            frames.push(callback);
+            return frames.length;
+        });
+        jest.spyOn(window, "cancelAnimationFrame").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    const runFrame = (time: number) => {
+        now = time;
+        frames.shift()?.(time);
+    };
+
+    test("updates instantly without duration", () => {
+        const update = jest.fn();
+        new Animation().start(0, "linear", update);
+
+        expect(update).toHaveBeenCalledTimes(1);
+        expect(update).toHaveBeenCalledWith(1);
+    });
+
+    test("progress depends on elapsed time instead of frames", () => {
+        const update = jest.fn();
+        const animation = new Animation();
+        animation.start(100, "linear", update);
+
+        runFrame(25);
+        expect(update).toHaveBeenLastCalledWith(0.25);
+
+        runFrame(75);
+        expect(update).toHaveBeenLastCalledWith(0.75);
+        expect(animation.isRunning()).toBe(true);
+    });
+
+    test("finishes with progress of exactly 1", () => {
+        const update = jest.fn();
+        const animation = new Animation();
+        animation.start(100, "spring", update);
+
+        runFrame(50);
+        runFrame(120);
+
+        expect(update).toHaveBeenLastCalledWith(1);
+        expect(animation.isRunning()).toBe(false);
+        expect(frames.length).toBe(0);
+    });
+
+    test("cancel stops the animation", () => {
+        const animation = new Animation();
+        animation.start(100, "linear", jest.fn());
+
+        animation.cancel();
+        expect(animation.isRunning()).toBe(false);
+        expect(window.cancelAnimationFrame).toHaveBeenCalled();
+    });
+});
@@ -1,3 +1,6 @@
+import { EditorState } from "@codemirror/state";
+
+import { codeBlocksField } from "../src/core/codeblocks";
 import { CodeBlock } from "../src/components/codeblock";
 
 const createMockPlugin = (settings: any = {}) => ({
@@ -6,9 +9,11 @@ const createMockPlugin = (settings: any = {}) => ({
         ...settings,
     },
     register: jest.fn(),
+    registerEditorExtension: jest.fn(),
     app: {
         workspace: {
             activeEditor: null as any,
+            updateOptions: jest.fn(),
         },
     },
     followScroll: {
@@ -18,6 +23,8 @@ const createMockPlugin = (settings: any = {}) => ({
         onScroll: jest.fn(),
         onScrollEnd: jest.fn(),
         onTouchMove: jest.fn(),
+        onTouchStart: jest.fn(),
+        onTouchEnd: jest.fn(),
         onLeafChange: jest.fn(),
         onWheelCancelling: jest.fn(),
         onCursorUpdate: jest.fn(),
@@ -34,70 +41,6 @@ describe("CodeBlock", () => {
         codeBlock = new CodeBlock(mockPlugin as any);
     });
 
-    describe("normalizeWheelDelta", () => {
-        test("keeps delta values with DOM_DELTA_PIXEL", () => {
-            const event = new WheelEvent("wheel", {
-                deltaX: 3,
-                deltaY: 5,
-                deltaMode: WheelEvent.DOM_DELTA_PIXEL,
-            });
-
-            const result = codeBlock["normalizeWheelDelta"](event);
-            expect(result.deltaX).toBe(3);
-            expect(result.deltaY).toBe(5);
-        });
-
-        test("scales DOM_DELTA_LINE by 16", () => {
-            const event = new WheelEvent("wheel", {
-                deltaX: 2,
-                deltaY: 3,
-                deltaMode: WheelEvent.DOM_DELTA_LINE,
-            });
-
-            const result = codeBlock["normalizeWheelDelta"](event);
-            expect(result.deltaX).toBe(32);
-            expect(result.deltaY).toBe(48);
-        });
-
-        test("scales DOM_DELTA_PAGE by window height", () => {
-            const event = new WheelEvent("wheel", {
-                deltaX: 1,
-                deltaY: 1,
-                deltaMode: WheelEvent.DOM_DELTA_PAGE,
-            });
-
-            const result = codeBlock["normalizeWheelDelta"](event);
-            expect(result.deltaX).toBe(window.innerHeight);
-            expect(result.deltaY).toBe(window.innerHeight);
-        });
-
-        test("swaps axes when shift key is held and deltaY is dominant", () => {
-            const event = new WheelEvent("wheel", {
-                deltaX: 1,
-                deltaY: 10,
-                deltaMode: WheelEvent.DOM_DELTA_PIXEL,
-                shiftKey: true,
-            });
-
-            const result = codeBlock["normalizeWheelDelta"](event);
-            expect(result.deltaX).toBe(10);
-            expect(result.deltaY).toBe(0);
-        });
-
-        test("does not swap axes when shift key is held but deltaX is dominant", () => {
-            const event = new WheelEvent("wheel", {
-                deltaX: 10,
-                deltaY: 1,
-                deltaMode: WheelEvent.DOM_DELTA_PIXEL,
-                shiftKey: true,
-            });
-
-            const result = codeBlock["normalizeWheelDelta"](event);
-            expect(result.deltaX).toBe(10);
-            expect(result.deltaY).toBe(1);
-        });
-    });
-
     describe("insideCodeBlock", () => {
         test("detects code block class", () => {
             const el = document.createElement("div");
@@ -183,6 +126,337 @@ describe("CodeBlock", () => {
         });
     });
 
+    describe("scrollBlockTo", () => {
+        test("applies the position to all lines of the block", () => {
+            const parent = document.createElement("div");
+            const lines = [0, 1, 2].map(() => {
+                const el = document.createElement("div");
+                el.classList.add("HyperMD-codeblock");
+                parent.appendChild(el);
+                return el;
+            });
+
+            codeBlock["currentScrollWidth"] = 500;
+            codeBlock["codeBlockLines"] = lines;
+            codeBlock.scrollBlockTo(lines[1], 200);
+
+            expect(codeBlock["currentScrollLeft"]).toBe(200);
+            lines.forEach((el) => expect(el.scrollLeft).toBe(200));
+        });
+
+        test("exposes the position to CSS for the gutter", () => {
+            const line = document.createElement("div");
+            line.classList.add("HyperMD-codeblock");
+
+            codeBlock["currentScrollWidth"] = 500;
+            codeBlock["codeBlockLines"] = [line];
+            codeBlock.scrollBlockTo(line, 150);
+
+            expect(line.style.getPropertyValue("--scrolling-code-scroll-left")).toBe("150px");
+        });
+
+        test("exposes the position of lines, which were scrolled natively", () => {
+            const line = document.createElement("div");
+            line.scrollLeft = 150;
+
+            codeBlock["setLineScroll"](line, 150);
+
+            expect(line.style.getPropertyValue("--scrolling-code-scroll-left")).toBe("150px");
+        });
+
+        test("does not exceed the scrollable width", () => {
+            const line = document.createElement("div");
+            line.classList.add("HyperMD-codeblock");
+
+            codeBlock["currentScrollWidth"] = 100;
+            codeBlock["codeBlockLines"] = [line];
+            codeBlock.scrollBlockTo(line, 200);
+
+            expect(codeBlock["currentScrollLeft"]).toBe(100);
+        });
+    });
+
+    describe("scrollCursorBlock", () => {
+        let line: HTMLElement;
+        let editor: any;
+
+        beforeEach(() => {
+            mockPlugin.settings.codeBlockScrollEnabled = true;
+
+            const contentDOM = document.createElement("div");
+            line = document.createElement("div");
+            line.classList.add("cm-line", "cm-active", "HyperMD-codeblock");
+            Object.defineProperty(line, "scrollWidth", { value: 1_000_400 });
+            Object.defineProperty(line, "clientWidth", { value: 200 });
+            contentDOM.appendChild(line);
+
+            editor = { cm: { contentDOM, defaultCharacterWidth: 8 } };
+            codeBlock["animateScroll"] = jest.fn();
+        });
+
+        test("does nothing outside of code blocks", () => {
+            line.classList.remove("HyperMD-codeblock");
+            codeBlock.scrollCursorBlock(editor, "character", 1);
+            expect(codeBlock["animateScroll"]).not.toHaveBeenCalled();
+        });
+
+        test("scrolls by a character", () => {
+            codeBlock.scrollCursorBlock(editor, "character", 1);
+            expect(codeBlock["currentScrollVelocity"]).toBeCloseTo(8 * 0.2);
+        });
+
+        test("scrolls by half of the width", () => {
+            codeBlock.scrollCursorBlock(editor, "half", -1);
+            expect(codeBlock["currentScrollVelocity"]).toBeCloseTo(-100 * 0.2);
+        });
+
+        test("scrolls to the end", () => {
+            codeBlock.scrollCursorBlock(editor, "end", 1);
+            expect(codeBlock["currentScrollVelocity"]).toBeCloseTo(200 * 0.2);
+        });
+    });
+
+    describe("previewWheelScroll", () => {
+        let code: HTMLElement;
+
+        beforeEach(() => {
+            mockPlugin.settings.codeBlockScrollEnabled = true;
+
+            const view = document.createElement("div");
+            view.classList.add("markdown-preview-view");
+            view.innerHTML = "<pre><code><span>code</span></code></pre>";
+            code = view.querySelector("code");
+            Object.defineProperty(code, "scrollWidth", { value: 700 });
+            Object.defineProperty(code, "clientWidth", { value: 500 });
+
+            codeBlock["animatePreviewScroll"] = jest.fn();
+        });
+
+        const createWheelEvent = (target: Element, init: WheelEventInit) => {
+            const event = new WheelEvent("wheel", init);
+            Object.defineProperty(event, "target", { value: target });
+            return event;
+        };
+
+        test("scrolls code blocks in reading mode with shift and wheel", () => {
+            const event = createWheelEvent(code.firstElementChild, { deltaY: 100, shiftKey: true });
+
+            expect(codeBlock["wheelHandler"](event)).toBe(true);
+            expect(codeBlock["previewCode"]).toBe(code);
+            expect(codeBlock["previewScrollWidth"]).toBe(200);
+            expect(codeBlock["previewScrollVelocity"]).toBeCloseTo(40);
+            expect(codeBlock["animatePreviewScroll"]).toHaveBeenCalled();
+        });
+
+        test("keeps the code block of the editor and its pending offset", () => {
+            const line = document.createElement("div");
+            codeBlock["codeBlockLines"] = [line];
+            codeBlock["currentScrollLeft"] = 50;
+            codeBlock["isOffsetStorePending"] = true;
+
+            codeBlock["wheelHandler"](createWheelEvent(code, { deltaX: 100 }));
+
+            expect(codeBlock["codeBlockLines"]).toEqual([line]);
+            expect(codeBlock["currentScrollLeft"]).toBe(50);
+            expect(codeBlock["isOffsetStorePending"]).toBe(true);
+        });
+
+        test("ignores vertical wheel events", () => {
+            const event = createWheelEvent(code, { deltaY: 100 });
+
+            expect(codeBlock["wheelHandler"](event)).toBe(false);
+            expect(codeBlock["animatePreviewScroll"]).not.toHaveBeenCalled();
+        });
+
+        test("scrolls the code element with momentum", () => {
+            const frame = jest.spyOn(window, "requestAnimationFrame").mockReturnValue(1);
+            delete (codeBlock as any).animatePreviewScroll;
+            codeBlock["previewCode"] = code;
+            codeBlock["previewScrollWidth"] = 200;
+            codeBlock["previewScrollVelocity"] = 40;
+
+            codeBlock["animatePreviewScroll"]();
+
+            expect(code.scrollLeft).toBe(40);
+            expect(codeBlock["previewScrollVelocity"]).toBeCloseTo(32);
+            expect(frame).toHaveBeenCalledTimes(1);
+            frame.mockRestore();
+        });
+
+        test("ignores code blocks, which keep wrapping", () => {
+            code.parentElement.classList.add("scrolling-code-wrap");
+            const event = createWheelEvent(code, { deltaX: 100 });
+
+            expect(codeBlock["getPreviewCode"](event.target)).toBeNull();
+        });
+    });
+
+    describe("touchScroll", () => {
+        let lines: HTMLElement[];
+
+        beforeEach(() => {
+            const parent = document.createElement("div");
+            lines = [0, 1].map(() => {
+                const el = document.createElement("div");
+                el.classList.add("HyperMD-codeblock");
+                parent.appendChild(el);
+                return el;
+            });
+
+            codeBlock["codeBlockLines"] = lines;
+            codeBlock["currentScrollWidth"] = 300;
+            codeBlock["currentScrollLeft"] = 100;
+            codeBlock["updateCursorPassive"] = jest.fn();
+        });
+
+        test("follows the finger", () => {
+            codeBlock["touchScroll"](null, 50, lines[0], 0);
+
+            expect(codeBlock["currentScrollLeft"]).toBe(150);
+            lines.forEach((el) => expect(el.scrollLeft).toBe(150));
+        });
+
+        test("releases the gesture after resisting at the edge", () => {
+            codeBlock["currentScrollLeft"] = 0;
+
+            codeBlock["touchScroll"](null, -30, lines[0], 0);
+            expect(codeBlock["isTouchReleased"]).toBe(false);
+
+            codeBlock["touchScroll"](null, -30, lines[0], 16);
+            expect(codeBlock["isTouchReleased"]).toBe(true);
+        });
+
+        test("resets resistance when moving away from the edge", () => {
+            codeBlock["currentScrollLeft"] = 0;
+
+            codeBlock["touchScroll"](null, -30, lines[0], 0);
+            codeBlock["touchScroll"](null, 20, lines[0], 16);
+            codeBlock["touchScroll"](null, -30, lines[0], 32);
+
+            expect(codeBlock["isTouchReleased"]).toBe(false);
+        });
+    });
+
+    describe("calculateFlingVelocity", () => {
+        test("returns the velocity per frame", () => {
+            const samples = [
+                { deltaX: 10, time: 0 },
+                { deltaX: 10, time: 10 },
+                { deltaX: 10, time: 20 },
+            ];
+
+            expect(codeBlock["calculateFlingVelocity"](samples, 25)).toBeCloseTo(
+                (20 / 20) * (1000 / 60),
+            );
+        });
+
+        test("ignores samples before the finger rested", () => {
+            const samples = [
+                { deltaX: 10, time: 0 },
+                { deltaX: 10, time: 10 },
+            ];
+
+            expect(codeBlock["calculateFlingVelocity"](samples, 300)).toBe(0);
+        });
+    });
+
+    describe("findOpeningFence", () => {
+        const createState = (lines: string[]) =>
+            EditorState.create({ doc: lines.join("\n"), extensions: codeBlocksField });
+
+        test("finds the fence above a code line", () => {
+            const state = createState(["text", "```js", "a", "b"]);
+            expect(codeBlock["findOpeningFence"](state, 4)).toBe(state.doc.line(2).from);
+        });
+
+        test("finds fences in callouts", () => {
+            const state = createState(["> ~~~", "> a"]);
+            expect(codeBlock["findOpeningFence"](state, 2)).toBe(0);
+        });
+
+        test("skips fences of other characters and shorter fences inside a block", () => {
+            const state = createState(["````md", "```js", "~~~", "a", "````"]);
+            expect(codeBlock["findOpeningFence"](state, 4)).toBe(0);
+        });
+
+        test("returns null after a closed block", () => {
+            const state = createState(["```", "a", "```", "b"]);
+            expect(codeBlock["findOpeningFence"](state, 4)).toBeNull();
+        });
+
+        test("returns null without a fence", () => {
+            const state = createState(["a", "b"]);
+            expect(codeBlock["findOpeningFence"](state, 2)).toBeNull();
+        });
+    });
+
+    describe("measureGutterWidth", () => {
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        test("includes the margin of line numbers", () => {
+            const line = document.createElement("div");
+            line.setAttribute("data-scrolling-line-number", "12");
+            jest.spyOn(window, "getComputedStyle").mockReturnValue({
+                width: "24px",
+                marginInlineEnd: "8px",
+            } as CSSStyleDeclaration);
+
+            expect(codeBlock["measureGutterWidth"](line)).toBe(32);
+        });
+
+        test("returns 0 without line numbers", () => {
+            expect(codeBlock["measureGutterWidth"](document.createElement("div"))).toBe(0);
+        });
+    });
+
+    describe("offsets", () => {
+        let editor: any;
+
+        beforeEach(() => {
+            mockPlugin.settings.codeBlockScrollEnabled = true;
+            codeBlock.updateStyle();
+
+            const state = EditorState.create({
+                doc: "```js\ncode\n```",
+                extensions: codeBlock["editorExtensions"].slice(0, 2),
+            });
+            editor = {
+                cm: {
+                    state,
+                    dispatch(spec: any) {
+                        this.state = this.state.update(spec).state;
+                    },
+                },
+            };
+        });
+
+        test("stores and returns offsets by fence position", () => {
+            expect(codeBlock.getOffsets(editor.cm.state)).toBeUndefined();
+
+            codeBlock.setOffsets(editor, { 0: 120 });
+            expect(codeBlock.getOffsets(editor.cm.state)).toEqual({ 0: 120 });
+
+            codeBlock.setOffsets(editor, { 0: 0 });
+            expect(codeBlock.getOffsets(editor.cm.state)).toBeUndefined();
+        });
+
+        test("maps offsets through document changes", () => {
+            codeBlock.setOffsets(editor, { 0: 120 });
+            editor.cm.dispatch({ changes: { from: 0, insert: "intro\n" } });
+
+            expect(codeBlock.getOffsets(editor.cm.state)).toEqual({ 6: 120 });
+        });
+
+        test("drops offsets of deleted fences", () => {
+            codeBlock.setOffsets(editor, { 0: 120 });
+            editor.cm.dispatch({ changes: { from: 0, to: 6 } });
+
+            expect(codeBlock.getOffsets(editor.cm.state)).toBeUndefined();
+        });
+    });
+
     describe("updateStyle", () => {
         test("adds CSS class when enabled", () => {
             mockPlugin.settings.codeBlockScrollEnabled = true;
@@ -0,0 +1,69 @@
+import { Text } from "@codemirror/state";
+
+import { CodeBlockGutter } from "../src/components/codeblockgutter";
+import { findCodeBlocks } from "../src/core/codeblocks";
+
+const createMockPlugin = (settings: any = {}) => ({
+    settings: {
+        codeBlockScrollEnabled: true,
+        codeBlockLineNumbersEnabled: true,
+        ...settings,
+    },
+    register: jest.fn(),
+    registerEditorExtension: jest.fn(),
+    app: {
+        workspace: {
+            updateOptions: jest.fn(),
+        },
+    },
+});
+
+describe("CodeBlockGutter", () => {
+    let gutter: CodeBlockGutter;
+    let mockPlugin: any;
+
+    beforeEach(() => {
+        mockPlugin = createMockPlugin();
+        gutter = new CodeBlockGutter(mockPlugin as any);
+    });
+
+    describe("findCodeLineNumbers", () => {
+        const blocks = findCodeBlocks(
+            Text.of(["text", "```js", "a", "b", "```", "~~~", "c", "```", "d", "~~~"]),
+        );
+
+        test("numbers code lines within each block", () => {
+            expect(gutter["findCodeLineNumbers"](blocks, 1, 10)).toEqual([
+                [3, 1],
+                [4, 2],
+                [7, 1],
+                [8, 2],
+                [9, 3],
+            ]);
+        });
+
+        test("counts lines before the first line", () => {
+            expect(gutter["findCodeLineNumbers"](blocks, 8, 9)).toEqual([
+                [8, 2],
+                [9, 3],
+            ]);
+        });
+    });
+
+    describe("updateStyle", () => {
+        test("adds CSS class and extension when enabled", () => {
+            gutter.updateStyle();
+
+            expect(gutter["editorExtensions"].length).toBe(1);
+            expect(document.body.classList.contains("scrolling-code-line-numbers")).toBe(true);
+        });
+
+        test("requires horizontal code scrolling", () => {
+            mockPlugin.settings.codeBlockScrollEnabled = false;
+            gutter.updateStyle();
+
+            expect(gutter["editorExtensions"].length).toBe(0);
+            expect(document.body.classList.contains("scrolling-code-line-numbers")).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,167 @@
+import { EditorSelection, EditorState, Text } from "@codemirror/state";
+
+import { CodeBlockHeight } from "../src/components/codeblockheight";
+import { codeBlocksField, findCodeBlocks } from "../src/core/codeblocks";
+
+const createMockPlugin = (settings: any = {}) => ({
+    settings: {
+        codeBlockMaxHeightEnabled: true,
+        codeBlockMaxLines: 2,
+        ...settings,
+    },
+    events: {
+        onWheelCancelling: jest.fn(),
+        isLivePreview: jest.fn(() => true),
+    },
+    register: jest.fn(),
+    registerEditorExtension: jest.fn(),
+    registerMarkdownPostProcessor: jest.fn(),
+    app: {
+        workspace: {
+            updateOptions: jest.fn(),
+        },
+    },
+});
+
+const NOTE = ["text", "```js", "a", "b", "c", "d", "```", "text"];
+
+describe("CodeBlockHeight", () => {
+    let codeBlockHeight: CodeBlockHeight;
+    let mockPlugin: any;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockPlugin = createMockPlugin();
+        codeBlockHeight = new CodeBlockHeight(mockPlugin as any);
+    });
+
+    const createState = (doc: string[], cursor = 0) =>
+        EditorState.create({
+            doc: doc.join("\n"),
+            selection: EditorSelection.cursor(cursor),
+            extensions: codeBlockHeight["editorExtensions"],
+        });
+
+    const getHiddenLines = (state: EditorState) => {
+        const hidden: number[] = [];
+        const decorations = state.field(codeBlockHeight["heightField"]!).decorations;
+        decorations.between(0, state.doc.length, (from, to, decoration) => {
+            if (!decoration.spec.block) return;
+
+            const last = state.doc.lineAt(to).number;
+            for (let line = state.doc.lineAt(from).number; line <= last; line++) {
+                hidden.push(line);
+            }
+        });
+        return hidden;
+    };
+
+    describe("findLongCodeBlocks", () => {
+        test("returns code blocks with more lines than the maximum", () => {
+            const blocks = findCodeBlocks(
+                Text.of(["```js", "a", "b", "```", "", "```js", "a", "b", "c", "```"]),
+            );
+
+            expect(codeBlockHeight["findLongCodeBlocks"](blocks)).toEqual([blocks[1]]);
+        });
+
+        test("requires a matching closing fence", () => {
+            const blocks = findCodeBlocks(Text.of(["~~~~", "```", "a", "b", "~~~", "~~~~"]));
+
+            expect(codeBlockHeight["findLongCodeBlocks"](blocks)).toEqual(blocks);
+        });
+
+        test("ignores unclosed code blocks and callouts", () => {
+            const blocks = findCodeBlocks(
+                Text.of(["> ```", "> a", "> b", "> c", "> ```", "```", "a", "b", "c"]),
+            );
+
+            expect(codeBlockHeight["findLongCodeBlocks"](blocks)).toEqual([]);
+        });
+    });
+
+    describe("decorations", () => {
+        test("hides the code lines after the maximum", () => {
+            expect(getHiddenLines(createState(NOTE))).toEqual([5, 6]);
+        });
+
+        test("shows all lines while the cursor is inside", () => {
+            const state = createState(NOTE);
+            const inside = state.update({ selection: { anchor: state.doc.line(4).from } }).state;
+
+            expect(getHiddenLines(inside)).toEqual([]);
+            expect(getHiddenLines(inside.update({ selection: { anchor: 0 } }).state)).toEqual([
+                5, 6,
+            ]);
+        });
+
+        test("shows all lines outside of live preview", () => {
+            mockPlugin.events.isLivePreview.mockReturnValue(false);
+
+            expect(getHiddenLines(createState(NOTE))).toEqual([]);
+        });
+
+        test("keeps the decorations on selection changes outside", () => {
+            const state = createState(NOTE);
+            const moved = state.update({ selection: { anchor: 2 } }).state;
+
+            expect(moved.field(codeBlockHeight["heightField"]!)).toBe(
+                state.field(codeBlockHeight["heightField"]!),
+            );
+        });
+
+        test("keeps the scroll position when text is inserted above", () => {
+            let state = createState(NOTE);
+            const block = state.field(codeBlocksField)[0];
+            state = state.update({
+                effects: codeBlockHeight["getScrollEffect"](state, block, 2)!,
+            }).state;
+            expect(getHiddenLines(state)).toEqual([3, 4]);
+
+            state = state.update({ changes: { from: 0, insert: "new\n" } }).state;
+            expect(getHiddenLines(state)).toEqual([4, 5]);
+        });
+    });
+
+    describe("getScrolledOffset", () => {
+        test("clamps the offset to the code lines", () => {
+            const state = createState(NOTE);
+            const block = state.field(codeBlocksField)[0];
+
+            expect(codeBlockHeight["getScrolledOffset"](state, block, 1)).toBe(2);
+            expect(codeBlockHeight["getScrolledOffset"](state, block, 10)).toBe(3);
+        });
+
+        test("hands off at the edges of the code block", () => {
+            const state = createState(NOTE);
+            const block = state.field(codeBlocksField)[0];
+
+            expect(codeBlockHeight["getScrolledOffset"](state, block, -1)).toBeNull();
+        });
+
+        test("hands off while the code block is expanded", () => {
+            const state = createState(NOTE, Text.of(NOTE).line(3).from);
+            const block = state.field(codeBlocksField)[0];
+
+            expect(codeBlockHeight["getScrolledOffset"](state, block, 1)).toBeNull();
+        });
+    });
+
+    describe("updateStyle", () => {
+        test("sets the maximum number of lines", () => {
+            mockPlugin.settings.codeBlockMaxLines = 12;
+            codeBlockHeight.updateStyle();
+
+            expect(document.body.classList.contains("scrolling-code-max-height")).toBe(true);
+            expect(document.body.style.getPropertyValue("--scrolling-code-max-lines")).toBe("12");
+        });
+
+        test("removes the editor extension when disabled", () => {
+            mockPlugin.settings.codeBlockMaxHeightEnabled = false;
+            codeBlockHeight.updateStyle();
+
+            expect(codeBlockHeight["editorExtensions"].length).toBe(0);
+            expect(document.body.classList.contains("scrolling-code-max-height")).toBe(false);
+        });
+    });
+});
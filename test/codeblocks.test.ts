@@ -0,0 +1,82 @@
+import { EditorState, Text } from "@codemirror/state";
+
+import { codeBlocksField, findCodeBlocks, getCodeBlocksInLines } from "../src/core/codeblocks";
+
+const NOTE = [
+    "# Note",
+    "```js",
+    "a",
+    "```",
+    "",
+    "> ```",
+    "> b",
+    "> ```",
+    "",
+    "~~~~",
+    "```",
+    "~~~~",
+    "text",
+];
+
+describe("findCodeBlocks", () => {
+    test("finds closed and nested code blocks", () => {
+        expect(findCodeBlocks(Text.of(NOTE))).toEqual([
+            { openLine: 2, closeLine: 4, closed: true, info: "js", nested: false },
+            { openLine: 6, closeLine: 8, closed: true, info: "", nested: true },
+            { openLine: 10, closeLine: 12, closed: true, info: "", nested: false },
+        ]);
+    });
+
+    test("extends unclosed code blocks to the end", () => {
+        expect(findCodeBlocks(Text.of(["```", "a", "~~~", "b"]))).toEqual([
+            { openLine: 1, closeLine: 4, closed: false, info: "", nested: false },
+        ]);
+    });
+});
+
+describe("codeBlocksField", () => {
+    const createState = () =>
+        EditorState.create({ doc: NOTE.join("\n"), extensions: codeBlocksField });
+
+    /** Applies the change and compares the updated blocks with a full scan. */
+    const expectUpdate = (change: { from: number; to?: number; insert?: string }) => {
+        const state = createState().update({ changes: change }).state;
+        expect(state.field(codeBlocksField)).toEqual(findCodeBlocks(state.doc));
+    };
+
+    const lineStart = (line: number) => Text.of(NOTE).line(line).from;
+
+    test("updates blocks after typing text", () => {
+        expectUpdate({ from: lineStart(13), insert: "more " });
+        expectUpdate({ from: lineStart(1), insert: "new line\n" });
+    });
+
+    test("updates blocks after adding a fence", () => {
+        expectUpdate({ from: lineStart(5), insert: "```\n" });
+        expectUpdate({ from: lineStart(1), insert: "```\n" });
+    });
+
+    test("updates blocks after removing a fence", () => {
+        expectUpdate({ from: lineStart(4), to: lineStart(5) });
+        expectUpdate({ from: lineStart(10), to: lineStart(11) });
+    });
+
+    test("updates blocks after editing inside of a block", () => {
+        expectUpdate({ from: lineStart(3), insert: "b\nc\n" });
+        expectUpdate({ from: lineStart(11), insert: "~~~~\n" });
+    });
+});
+
+describe("getCodeBlocksInLines", () => {
+    const blocks = findCodeBlocks(Text.of(NOTE));
+
+    test("returns blocks overlapping with the lines", () => {
+        expect(getCodeBlocksInLines(blocks, 3, 6).map((block) => block.openLine)).toEqual([2, 6]);
+        expect(getCodeBlocksInLines(blocks, 9, 13).map((block) => block.openLine)).toEqual([10]);
+    });
+
+    test("returns nothing between blocks", () => {
+        expect(getCodeBlocksInLines(blocks, 5, 5)).toEqual([]);
+        expect(getCodeBlocksInLines(blocks, 13, 13)).toEqual([]);
+    });
+});
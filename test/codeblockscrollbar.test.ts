@@ -0,0 +1,159 @@
+import { CodeBlockScrollbar } from "../src/components/codeblockscrollbar";
+
+const createMockPlugin = (settings: any = {}) => ({
+    settings: {
+        codeBlockScrollEnabled: true,
+        codeBlockScrollbarEnabled: true,
+        ...settings,
+    },
+    registerEditorExtension: jest.fn(),
+    app: {
+        workspace: {
+            updateOptions: jest.fn(),
+        },
+    },
+});
+
+const createLine = (...classes: string[]) => {
+    const el = document.createElement("div");
+    el.classList.add("cm-line", ...classes);
+    return el;
+};
+
+describe("CodeBlockScrollbar", () => {
+    let scrollbar: CodeBlockScrollbar;
+    let mockPlugin: any;
+
+    beforeEach(() => {
+        mockPlugin = createMockPlugin();
+        scrollbar = new CodeBlockScrollbar(mockPlugin as any);
+    });
+
+    describe("updateStyle", () => {
+        test("adds the editor extension when enabled", () => {
+            expect(scrollbar["editorExtensions"].length).toBe(1);
+            expect(mockPlugin.app.workspace.updateOptions).toHaveBeenCalled();
+        });
+
+        test("removes the editor extension without code block scrolling", () => {
+            mockPlugin.settings.codeBlockScrollEnabled = false;
+            scrollbar.updateStyle();
+            expect(scrollbar["editorExtensions"].length).toBe(0);
+        });
+
+        test("removes the editor extension when disabled", () => {
+            mockPlugin.settings.codeBlockScrollbarEnabled = false;
+            scrollbar.updateStyle();
+            expect(scrollbar["editorExtensions"].length).toBe(0);
+        });
+    });
+
+    describe("collectBlocks", () => {
+        test("groups adjacent code lines without begin and end", () => {
+            const contentDOM = document.createElement("div");
+            const lines = [
+                createLine(),
+                createLine("HyperMD-codeblock", "HyperMD-codeblock-begin"),
+                createLine("HyperMD-codeblock"),
+                createLine("HyperMD-codeblock"),
+                createLine("HyperMD-codeblock", "HyperMD-codeblock-end"),
+                createLine(),
+                createLine("HyperMD-codeblock"),
+            ];
+            contentDOM.append(...lines);
+
+            const result = scrollbar["collectBlocks"](contentDOM);
+            expect(result).toEqual([[lines[2], lines[3]], [lines[6]]]);
+        });
+
+        test("returns no blocks without code lines", () => {
+            const contentDOM = document.createElement("div");
+            contentDOM.append(createLine(), createLine());
+
+            expect(scrollbar["collectBlocks"](contentDOM)).toEqual([]);
+        });
+    });
+
+    describe("calculateThumb", () => {
+        const block = {
+            lines: [] as Element[],
+            scrollLeft: 0,
+            scrollWidth: 300,
+            clientWidth: 100,
+            top: 0,
+            left: 0,
+            width: 100,
+        };
+
+        test("scales the thumb by the visible fraction", () => {
+            const result = scrollbar["calculateThumb"](block);
+            expect(result.width).toBe(25);
+            expect(result.left).toBe(0);
+        });
+
+        test("moves the thumb to the end when fully scrolled", () => {
+            const result = scrollbar["calculateThumb"]({ ...block, scrollLeft: 300 });
+            expect(result.left).toBe(75);
+        });
+
+        test("does not shrink the thumb below the minimum width", () => {
+            const result = scrollbar["calculateThumb"]({ ...block, scrollWidth: 10000 });
+            expect(result.width).toBe(20);
+        });
+    });
+
+    describe("startDrag", () => {
+        let layer: HTMLElement;
+        let thumb: HTMLElement;
+        let line: HTMLElement;
+
+        beforeEach(() => {
+            mockPlugin.codeBlock = { scrollBlockTo: jest.fn() };
+
+            layer = document.createElement("div");
+            layer.append(document.createElement("div"), document.createElement("div"));
+            thumb = document.createElement("div");
+            thumb.setPointerCapture = jest.fn();
+            layer.children[1].appendChild(thumb);
+
+            line = createLine("HyperMD-codeblock");
+            Object.defineProperty(line, "scrollLeft", { value: 50 });
+            document.body.appendChild(line);
+        });
+
+        afterEach(() => {
+            line.remove();
+        });
+
+        const pointerDown = () =>
+            scrollbar["startDrag"](
+                { target: thumb, clientX: 0, pointerId: 1, preventDefault: jest.fn() } as any,
+                layer,
+            );
+
+        test("drags the block of the last measure from its current position", () => {
+            const block = {
+                lines: [line],
+                scrollLeft: 0,
+                scrollWidth: 300,
+                clientWidth: 100,
+                top: 0,
+                left: 0,
+                width: 100,
+            };
+            scrollbar["layerBlocks"].set(layer, [{ ...block, lines: [] }, block]);
+
+            pointerDown();
+            thumb.dispatchEvent(new MouseEvent("pointermove", { clientX: 10 }));
+
+            // The thumb of 25px moves over 75px for 300px of scrolling.
+            expect(mockPlugin.codeBlock.scrollBlockTo).toHaveBeenCalledWith(line, 90);
+        });
+
+        test("ignores thumbs without a measured block", () => {
+            pointerDown();
+
+            expect(thumb.setPointerCapture).not.toHaveBeenCalled();
+        });
+    });
+});
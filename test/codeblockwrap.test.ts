@@ -0,0 +1,118 @@
+import { Text } from "@codemirror/state";
+
+import {
+    CodeBlockWrap,
+    parseWrapRules,
+    shouldWrapCodeBlock,
+} from "../src/components/codeblockwrap";
+import { findCodeBlocks } from "../src/core/codeblocks";
+
+const createMockPlugin = (settings: any = {}) => ({
+    settings: {
+        codeBlockScrollEnabled: true,
+        codeBlockWrapLanguages: "text, markdown",
+        codeBlockScrollLanguages: "",
+        ...settings,
+    },
+    registerEditorExtension: jest.fn(),
+    registerMarkdownPostProcessor: jest.fn(),
+    app: {
+        workspace: {
+            updateOptions: jest.fn(),
+            iterateAllLeaves: jest.fn(),
+        },
+    },
+});
+
+describe("shouldWrapCodeBlock", () => {
+    const settings = createMockPlugin().settings as any;
+    const rules = parseWrapRules(settings);
+
+    test("wraps listed languages", () => {
+        expect(shouldWrapCodeBlock("text", rules)).toBe(true);
+        expect(shouldWrapCodeBlock(" Markdown ", rules)).toBe(true);
+        expect(shouldWrapCodeBlock("python", rules)).toBe(false);
+    });
+
+    test("flags take precedence over languages", () => {
+        expect(shouldWrapCodeBlock("text nowrap", rules)).toBe(false);
+        expect(shouldWrapCodeBlock("python wrap", rules)).toBe(true);
+    });
+
+    test("wraps languages missing from the scroll list", () => {
+        const restricted = parseWrapRules({
+            ...settings,
+            codeBlockScrollLanguages: "python, rust",
+        });
+
+        expect(shouldWrapCodeBlock("python", restricted)).toBe(false);
+        expect(shouldWrapCodeBlock("javascript", restricted)).toBe(true);
+        expect(shouldWrapCodeBlock("javascript nowrap", restricted)).toBe(false);
+    });
+});
+
+describe("CodeBlockWrap", () => {
+    let codeBlockWrap: CodeBlockWrap;
+    let mockPlugin: any;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockPlugin = createMockPlugin();
+        codeBlockWrap = new CodeBlockWrap(mockPlugin as any);
+    });
+
+    describe("findWrappedLines", () => {
+        test("returns code lines of wrapped blocks only", () => {
+            const doc = Text.of([
+                "```text",
+                "prose",
+                "```",
+                "```python",
+                "code",
+                "```",
+                "~~~~ python wrap",
+                "```",
+                "~~~~",
+            ]);
+
+            const blocks = findCodeBlocks(doc);
+            expect(codeBlockWrap["findWrappedLines"](blocks, 1, doc.lines)).toEqual([2, 8]);
+        });
+
+        test("handles code blocks in callouts", () => {
+            const doc = Text.of(["> ```text", "> prose", "> ```", "> after"]);
+
+            const blocks = findCodeBlocks(doc);
+            expect(codeBlockWrap["findWrappedLines"](blocks, 1, doc.lines)).toEqual([2]);
+        });
+
+        test("returns lines between the first and last line", () => {
+            const doc = Text.of(["```text", "a", "b", "c", "```"]);
+
+            const blocks = findCodeBlocks(doc);
+            expect(codeBlockWrap["findWrappedLines"](blocks, 3, 3)).toEqual([3]);
+        });
+    });
+
+    describe("updateStyle", () => {
+        test("removes the editor extension when disabled", () => {
+            mockPlugin.settings.codeBlockScrollEnabled = false;
+            codeBlockWrap.updateStyle();
+
+            expect(codeBlockWrap["editorExtensions"].length).toBe(0);
+            expect(mockPlugin.app.workspace.updateOptions).toHaveBeenCalled();
+        });
+
+        test("renders notes again only after the rules changed", () => {
+            const rerender = jest.fn();
+            mockPlugin.app.workspace.iterateAllLeaves = rerender;
+
+            codeBlockWrap.updateStyle();
+            expect(rerender).not.toHaveBeenCalled();
+
+            mockPlugin.settings.codeBlockScrollLanguages = "python";
+            codeBlockWrap.updateStyle();
+            expect(rerender).toHaveBeenCalledTimes(1);
+        });
+    });
+});
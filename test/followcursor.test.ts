@@ -4,20 +4,45 @@ import { FollowCursor } from "../src/components/followcursor";
 const createMockPlugin = (settings: any = {}) => ({
     settings: {
         followCursorEnabled: true,
+        followCursorAnchor: 50,
+        followCursorTriggerMode: "radius",
         followCursorRadius: 50,
+        followCursorLinesAbove: 5,
+        followCursorLinesBelow: 5,
         followCursorSmoothness: 100,
         followCursorEnableMouse: false,
         followCursorEnableSelection: false,
         followCursorInstantEditScroll: false,
+        followCursorMultiCursorEnabled: false,
+        followCursorHorizontalEnabled: false,
+        followCursorSideScrollOff: 5,
+        followCursorFolderRules: [],
+        followCursorNodeRules: {},
+        followCursorCenterSearch: true,
+        animationEasing: "linear",
         ...settings,
     },
     register: jest.fn(),
+    app: {
+        workspace: {
+            getActiveFile: jest.fn(() => null),
+        },
+        metadataCache: {
+            getFileCache: jest.fn(() => null),
+        },
+    },
     events: {
         onKeyDown: jest.fn(),
         onMouseUp: jest.fn(),
         onCursorUpdate: jest.fn(),
+        onSearchJump: jest.fn(),
         onLeafChange: jest.fn(),
         onResize: jest.fn(),
+        onVisualViewportResize: jest.fn(),
+        onMetadataChange: jest.fn(),
+        onFileRename: jest.fn(),
+        onLayoutReady: jest.fn(),
+        getEditorFile: jest.fn(() => null),
     },
 });
 
@@ -84,43 +109,465 @@ describe("FollowCursor", () => {
         });
     });
 
-    describe("calculateSteps", () => {
-        test("returns at least 1 step", () => {
+    describe("calculateGoalDistance with anchor", () => {
+        test("returns 0 when cursor is exactly at the anchor", () => {
+            mockPlugin.settings.followCursorAnchor = 30;
+            mockPlugin.settings.followCursorRadius = 0;
+            const scrollInfo = { top: 0, height: 100, left: 0 };
+
+            const result = followcursor["calculateGoalDistance"](30, scrollInfo);
+            expect(result).toBe(0);
+        });
+
+        test("scrolls towards the anchor instead of the center", () => {
+            mockPlugin.settings.followCursorAnchor = 30;
+            mockPlugin.settings.followCursorRadius = 0;
+            const scrollInfo = { top: 0, height: 100, left: 0 };
+
+            const result = followcursor["calculateGoalDistance"](50, scrollInfo);
+            expect(result).toBe(20);
+        });
+
+        test("scales radius separately above and below the anchor", () => {
+            mockPlugin.settings.followCursorAnchor = 20;
+            mockPlugin.settings.followCursorRadius = 50;
+            const scrollInfo = { top: 0, height: 100, left: 0 };
+
+            // Radius above the anchor: 10, radius below the anchor: 40
+            expect(followcursor["calculateGoalDistance"](10, scrollInfo)).toBe(0);
+            expect(followcursor["calculateGoalDistance"](5, scrollInfo)).toBe(-5);
+            expect(followcursor["calculateGoalDistance"](60, scrollInfo)).toBe(0);
+            expect(followcursor["calculateGoalDistance"](70, scrollInfo)).toBe(10);
+        });
+
+        test("full radius covers the entire screen with any anchor", () => {
+            mockPlugin.settings.followCursorAnchor = 25;
+            mockPlugin.settings.followCursorRadius = 100;
+            const scrollInfo = { top: 0, height: 100, left: 0 };
+
+            expect(followcursor["calculateGoalDistance"](0, scrollInfo)).toBe(0);
+            expect(followcursor["calculateGoalDistance"](100, scrollInfo)).toBe(0);
+        });
+    });
+
+    describe("calculateLinesGoalDistance", () => {
+        test("returns 0 when enough lines are visible around the cursor", () => {
+            const scrollInfo = { top: 0, height: 400, left: 0 };
+
+            const result = followcursor["calculateLinesGoalDistance"](190, 210, 20, scrollInfo);
+            expect(result).toBe(0);
+        });
+
+        test("scrolls up when too few lines are visible above the cursor", () => {
+            mockPlugin.settings.followCursorLinesAbove = 5;
+            const scrollInfo = { top: 0, height: 400, left: 0 };
+
+            const result = followcursor["calculateLinesGoalDistance"](60, 80, 20, scrollInfo);
+            expect(result).toBe(-40);
+        });
+
+        test("scrolls down when too few lines are visible below the cursor", () => {
+            mockPlugin.settings.followCursorLinesBelow = 2;
+            const scrollInfo = { top: 0, height: 400, left: 0 };
+
+            const result = followcursor["calculateLinesGoalDistance"](350, 370, 20, scrollInfo);
+            expect(result).toBe(10);
+        });
+
+        test("uses separate line counts above and below", () => {
+            mockPlugin.settings.followCursorLinesAbove = 0;
+            mockPlugin.settings.followCursorLinesBelow = 10;
+            const scrollInfo = { top: 0, height: 400, left: 0 };
+
+            expect(followcursor["calculateLinesGoalDistance"](0, 20, 20, scrollInfo)).toBe(0);
+            expect(followcursor["calculateLinesGoalDistance"](200, 220, 20, scrollInfo)).toBe(20);
+        });
+
+        test("accounts for the height of wrapped lines", () => {
+            mockPlugin.settings.followCursorLinesBelow = 1;
+            const scrollInfo = { top: 0, height: 400, left: 0 };
+
+            const result = followcursor["calculateLinesGoalDistance"](300, 390, 20, scrollInfo);
+            expect(result).toBe(10);
+        });
+
+        test("moves the cursor to the anchor when the lines do not fit", () => {
+            mockPlugin.settings.followCursorLinesAbove = 30;
+            mockPlugin.settings.followCursorLinesBelow = 30;
+            const scrollInfo = { top: 0, height: 400, left: 0 };
+
+            const result = followcursor["calculateLinesGoalDistance"](300, 320, 20, scrollInfo);
+            expect(result).toBe(110);
+        });
+    });
+
+    describe("calculateColumnsGoalDistance", () => {
+        test("returns 0 when enough characters are visible beside the cursor", () => {
+            expect(followcursor["calculateColumnsGoalDistance"](200, 210, 10, 500)).toBe(0);
+        });
+
+        test("scrolls left when too few characters are visible left of the cursor", () => {
+            expect(followcursor["calculateColumnsGoalDistance"](20, 30, 10, 500)).toBe(-30);
+        });
+
+        test("scrolls right when too few characters are visible right of the cursor", () => {
+            expect(followcursor["calculateColumnsGoalDistance"](480, 490, 10, 500)).toBe(40);
+        });
+
+        test("centers the cursor when the characters do not fit", () => {
+            mockPlugin.settings.followCursorSideScrollOff = 30;
+
+            expect(followcursor["calculateColumnsGoalDistance"](480, 490, 10, 500)).toBe(235);
+        });
+    });
+
+    describe("measureHorizontalCursorPosition", () => {
+        test("does nothing if lines wrap", () => {
+            const contentDOM = document.createElement("div");
+            contentDOM.classList.add("cm-lineWrapping");
+            const editor: any = { cm: { contentDOM } };
+
+            expect(followcursor["measureHorizontalCursorPosition"](editor)).toBeNull();
+        });
+    });
+
+    describe("calculateMultiCursorGoalDistance", () => {
+        const line = (top: number) => ({ top, bottom: top + 20 });
+
+        test("returns 0 when all cursors are visible", () => {
+            const cursors = [line(0), line(100), line(300)];
+            const result = followcursor["calculateMultiCursorGoalDistance"](cursors, 1, 500);
+            expect(result).toBe(0);
+        });
+
+        test("scrolls down until the last cursor is visible", () => {
+            const cursors = [line(100), line(200), line(580)];
+            const result = followcursor["calculateMultiCursorGoalDistance"](cursors, 0, 500);
+            expect(result).toBe(100);
+        });
+
+        test("scrolls up until the first cursor is visible", () => {
+            const cursors = [line(-150), line(200)];
+            const result = followcursor["calculateMultiCursorGoalDistance"](cursors, 1, 500);
+            expect(result).toBe(-150);
+        });
+
+        test("keeps the largest group of cursors including the primary one", () => {
+            const cursors = [line(0), line(400), line(700), line(800), line(900)];
+            const result = followcursor["calculateMultiCursorGoalDistance"](cursors, 1, 500);
+            expect(result).toBe(320);
+        });
+
+        test("returns null if no other cursor fits next to the primary one", () => {
+            const cursors = [line(0), line(1000), line(2000)];
+            const result = followcursor["calculateMultiCursorGoalDistance"](cursors, 1, 500);
+            expect(result).toBeNull();
+        });
+
+        test("handles cursors taller than the screen", () => {
+            const cursors = [line(0), { top: 100, bottom: 700 }];
+            const result = followcursor["calculateMultiCursorGoalDistance"](cursors, 0, 500);
+            expect(result).toBeNull();
+        });
+    });
+
+    describe("calculateDuration", () => {
+        test("returns a non-negative duration", () => {
             mockPlugin.settings.followCursorSmoothness = 100;
 
-            const result1 = followcursor["calculateSteps"](0, 100, false);
-            const result2 = followcursor["calculateSteps"](10, 100, false);
-            const result3 = followcursor["calculateSteps"](100, 100, false);
-            const result4 = followcursor["calculateSteps"](-10, 100, false);
-            const result5 = followcursor["calculateSteps"](-100, 100, false);
+            const result1 = followcursor["calculateDuration"](0, 100, false);
+            const result2 = followcursor["calculateDuration"](10, 100, false);
+            const result3 = followcursor["calculateDuration"](100, 100, false);
+            const result4 = followcursor["calculateDuration"](-10, 100, false);
+            const result5 = followcursor["calculateDuration"](-100, 100, false);
 
-            expect(result1).toBeGreaterThanOrEqual(1);
-            expect(result2).toBeGreaterThanOrEqual(1);
-            expect(result3).toBeGreaterThanOrEqual(1);
-            expect(result4).toBeGreaterThanOrEqual(1);
-            expect(result5).toBeGreaterThanOrEqual(1);
+            expect(result1).toBeGreaterThanOrEqual(0);
+            expect(result2).toBeGreaterThanOrEqual(0);
+            expect(result3).toBeGreaterThanOrEqual(0);
+            expect(result4).toBeGreaterThanOrEqual(0);
+            expect(result5).toBeGreaterThanOrEqual(0);
         });
 
-        test("reduces steps when goal exceeds scrollerHeight", () => {
+        test("reduces duration when goal exceeds scrollerHeight", () => {
             mockPlugin.settings.followCursorSmoothness = 100;
 
-            const resultSmallScroller = followcursor["calculateSteps"](100, 10, false);
-            const resultLargeScroller = followcursor["calculateSteps"](100, 200, false);
+            const resultSmallScroller = followcursor["calculateDuration"](100, 10, false);
+            const resultLargeScroller = followcursor["calculateDuration"](100, 200, false);
             expect(resultSmallScroller).toBeLessThan(resultLargeScroller);
         });
 
-        test("returns 1 step for instant edit scroll", () => {
+        test("returns 0 for instant edit scroll", () => {
             mockPlugin.settings.followCursorInstantEditScroll = true;
             mockPlugin.settings.followCursorSmoothness = 100;
 
-            const result = followcursor["calculateSteps"](50, 100, true);
-            expect(result).toBe(1);
+            const result = followcursor["calculateDuration"](50, 100, true);
+            expect(result).toBe(0);
         });
 
         test("uses smoothness setting for animation duration", () => {
             mockPlugin.settings.followCursorSmoothness = 200;
-            const result = followcursor["calculateSteps"](50, 100, false);
-            expect(result).toBeGreaterThan(1);
+            const result = followcursor["calculateDuration"](50, 100, false);
+            expect(result).toBeGreaterThan(0);
+        });
+
+        test("does not depend on the frame rate", () => {
+            mockPlugin.settings.followCursorSmoothness = 25;
+            const result = followcursor["calculateDuration"](50, 100, false);
+            expect(result).toBeCloseTo(66.68);
+        });
+    });
+
+    describe("resolveOverrides", () => {
+        const file = { path: "Drafts/Novel/Chapter 1.md" } as any;
+
+        test("returns no overrides without file", () => {
+            expect(followcursor["resolveOverrides"](null)).toEqual({});
+        });
+
+        test("applies the most specific folder rule", () => {
+            mockPlugin.settings.followCursorFolderRules = [
+                { folder: "Drafts/Novel/", enabled: true, radius: 20 },
+                { folder: "Drafts", enabled: false, radius: null },
+                { folder: "Daily", enabled: false, radius: null },
+            ];
+
+            const result = followcursor["resolveOverrides"](file);
+            expect(result).toEqual({ enabled: true, radius: 20 });
+        });
+
+        test("does not match folders by prefix only", () => {
+            mockPlugin.settings.followCursorFolderRules = [
+                { folder: "Draft", enabled: false, radius: null },
+            ];
+
+            const result = followcursor["resolveOverrides"](file);
+            expect(result).toEqual({});
+        });
+
+        test("frontmatter takes precedence over folder rules", () => {
+            mockPlugin.settings.followCursorFolderRules = [
+                { folder: "Drafts", enabled: true, radius: 20 },
+            ];
+            mockPlugin.app.metadataCache.getFileCache.mockReturnValue({
+                frontmatter: {
+                    "scrolling-follow-cursor": false,
+                    "scrolling-follow-cursor-radius": "150",
+                },
+            });
+
+            const result = followcursor["resolveOverrides"](file);
+            expect(result).toEqual({ enabled: false, radius: 100 });
+        });
+
+        test("ignores invalid frontmatter values", () => {
+            mockPlugin.app.metadataCache.getFileCache.mockReturnValue({
+                frontmatter: {
+                    "scrolling-follow-cursor": "maybe",
+                    "scrolling-follow-cursor-radius": true,
+                },
+            });
+
+            const result = followcursor["resolveOverrides"](file);
+            expect(result).toEqual({});
+        });
+
+        test("radius override is used for the goal distance", () => {
+            mockPlugin.settings.followCursorRadius = 100;
+            mockPlugin.app.workspace.getActiveFile.mockReturnValue(file);
+            mockPlugin.app.metadataCache.getFileCache.mockReturnValue({
+                frontmatter: { "scrolling-follow-cursor-radius": 0 },
+            });
+            followcursor.updateOverrides();
+
+            const scrollInfo = { top: 0, height: 100, left: 0 };
+            const result = followcursor["calculateGoalDistance"](10, scrollInfo);
+            expect(result).toBe(-40);
+        });
+    });
+
+    describe("getEditorOverrides", () => {
+        const activeFile = { path: "Notes/Active.md" };
+        const otherFile = { path: "Journal/Other.md" };
+        const createEditor = (file: any) => {
+            mockPlugin.events.getEditorFile.mockReturnValue(file);
+            return {};
+        };
+
+        beforeEach(() => {
+            mockPlugin.settings.followCursorFolderRules = [
+                { folder: "Journal", enabled: false, radius: null },
+            ];
+            mockPlugin.app.workspace.getActiveFile.mockReturnValue(activeFile);
+        });
+
+        test("uses cached overrides for the active note", () => {
+            followcursor["overrides"] = { radius: 10 };
+            const result = followcursor["getEditorOverrides"](createEditor(activeFile) as any);
+            expect(result).toEqual({ radius: 10 });
+        });
+
+        test("uses cached overrides for editors without a note", () => {
+            followcursor["overrides"] = { radius: 10 };
+            const result = followcursor["getEditorOverrides"](createEditor(null) as any);
+            expect(result).toEqual({ radius: 10 });
+        });
+
+        test("resolves overrides for notes in other editors", () => {
+            const result = followcursor["getEditorOverrides"](createEditor(otherFile) as any);
+            expect(result.enabled).toBe(false);
+        });
+    });
+
+    describe("invokeScroll", () => {
+        const createEditor = () => ({ cm: { requestMeasure: jest.fn() } });
+
+        beforeEach(() => {
+            followcursor["invokeHorizontalScroll"] = jest.fn();
+            jest.advanceTimersByTime(1000);
+        });
+
+        test("follows horizontally without vertical follow", () => {
+            mockPlugin.settings.followCursorEnabled = false;
+            mockPlugin.settings.followCursorHorizontalEnabled = true;
+            const editor = createEditor();
+
+            followcursor["invokeScroll"](editor as any, false);
+
+            expect(followcursor["invokeHorizontalScroll"]).toHaveBeenCalled();
+            expect(editor.cm.requestMeasure).not.toHaveBeenCalled();
+        });
+
+        test("does not follow horizontally in disabled folders", () => {
+            mockPlugin.settings.followCursorHorizontalEnabled = true;
+            followcursor["overrides"] = { enabled: false };
+
+            followcursor["invokeScroll"](createEditor() as any, false);
+
+            expect(followcursor["invokeHorizontalScroll"]).not.toHaveBeenCalled();
+        });
+
+        test("follows vertically without horizontal follow", () => {
+            const editor = createEditor();
+
+            followcursor["invokeScroll"](editor as any, false);
+
+            expect(followcursor["invokeHorizontalScroll"]).not.toHaveBeenCalled();
+            expect(editor.cm.requestMeasure).toHaveBeenCalled();
+        });
+    });
+
+    describe("resolveNodeRule", () => {
+        test("returns null without matching rules", () => {
+            mockPlugin.settings.followCursorNodeRules = {
+                "hmd-codeblock": { behavior: "disable", radius: 50 },
+            };
+            const result = followcursor["resolveNodeRule"](new Set(["HyperMD-table"]));
+            expect(result).toBeNull();
+        });
+
+        test("ignores rules with default behavior", () => {
+            mockPlugin.settings.followCursorNodeRules = {
+                "HyperMD-table": { behavior: "default", radius: 50 },
+            };
+            const result = followcursor["resolveNodeRule"](new Set(["HyperMD-table"]));
+            expect(result).toBeNull();
+        });
+
+        test("disabling takes precedence over custom radius", () => {
+            mockPlugin.settings.followCursorNodeRules = {
+                "HyperMD-table": { behavior: "radius", radius: 20 },
+                math: { behavior: "disable", radius: 50 },
+            };
+            const result = followcursor["resolveNodeRule"](new Set(["HyperMD-table", "math"]));
+            expect(result?.behavior).toBe("disable");
+        });
+
+        test("custom radius of the rule is used for the goal distance", () => {
+            const editor = {
+                getCursor: () => ({ line: 0, ch: 0 }),
+                getScrollInfo: () => ({ top: 0, height: 100, left: 0 }),
+                cm: {
+                    scrollDOM: {
+                        querySelector: () => ({}),
+                        getBoundingClientRect: () => ({ top: 0, bottom: 100, height: 100 }),
+                    },
+                    state: {
+                        doc: { line: () => ({ from: 0 }) },
+                        selection: { ranges: [{}], mainIndex: 0 },
+                    },
+                    coordsAtPos: () => ({ top: 10, bottom: 30 }),
+                    defaultLineHeight: 0,
+                },
+            };
+            followcursor["getCursorNodeTypes"] = jest.fn(() => new Set(["math"]));
+            const measure = () =>
+                followcursor["measureCursorPosition"](editor as any, {}, false)?.signedGoalDistance;
+
+            // The global radius covers the entire screen.
+            mockPlugin.settings.followCursorRadius = 100;
+            expect(measure()).toBe(0);
+
+            mockPlugin.settings.followCursorNodeRules = {
+                math: { behavior: "radius", radius: 0 },
+            };
+            expect(measure()).toBe(-40);
+        });
+    });
+
+    describe("getVisibleHeight", () => {
+        const rect = { top: 100, bottom: 700 } as DOMRect;
+
+        afterEach(() => {
+            Object.defineProperty(window, "visualViewport", { value: undefined, configurable: true });
+        });
+
+        test("returns the scroller height without visual viewport", () => {
+            Object.defineProperty(window, "visualViewport", { value: undefined, configurable: true });
+            expect(followcursor["getVisibleHeight"](rect, 600)).toBe(600);
+        });
+
+        test("excludes the area covered by the on-screen keyboard", () => {
+            Object.defineProperty(window, "visualViewport", {
+                value: { offsetTop: 0, height: 400 },
+                configurable: true,
+            });
+            expect(followcursor["getVisibleHeight"](rect, 600)).toBe(300);
+        });
+
+        test("never exceeds the scroller height", () => {
+            Object.defineProperty(window, "visualViewport", {
+                value: { offsetTop: 0, height: 1000 },
+                configurable: true,
+            });
+            expect(followcursor["getVisibleHeight"](rect, 600)).toBe(600);
+        });
+    });
+
+    describe("searchJumpHandler", () => {
+        const editor = { somethingSelected: () => true } as any;
+
+        beforeEach(() => {
+            followcursor["invokeScroll"] = jest.fn();
+        });
+
+        test("centers the next cursor update, even with a selection", () => {
+            followcursor["searchJumpHandler"]();
+            followcursor["cursorUpdateHandler"](editor, false, false);
+            expect(followcursor["invokeScroll"]).toHaveBeenCalledWith(editor, false, true);
+        });
+
+        test("only affects a single cursor update", () => {
+            followcursor["searchJumpHandler"]();
+            followcursor["cursorUpdateHandler"](editor, false, false);
+            followcursor["cursorUpdateHandler"](editor, false, false);
+            expect(followcursor["invokeScroll"]).toHaveBeenCalledTimes(1);
+        });
+
+        test("does nothing if disabled", () => {
+            mockPlugin.settings.followCursorCenterSearch = false;
+            followcursor["searchJumpHandler"]();
+            followcursor["cursorUpdateHandler"](editor, false, false);
+            expect(followcursor["invokeScroll"]).not.toHaveBeenCalled();
         });
     });
 
@@ -0,0 +1,45 @@
+/**
+ * Shared fixtures for components, which navigate between positions, like the jump list and marks.
+ */
+
+/**
+ * Returns a state, which scrolls to the line and places the cursor at its start.
+ */
+export const createState = (line: number) => ({
+    timestamp: 0,
+    scroll: line,
+    cursor: { from: { line, ch: 0 }, to: { line, ch: 0 } },
+});
+
+/**
+ * Returns a mock plugin with a single view, whose position is reduced to a line.
+ * Applying and opening states moves the view, files named deleted.md do not exist.
+ */
+export const createNavigationPlugin = () => {
+    const leaf = { working: false };
+    const view: any = { file: { path: "a.md" }, leaf, line: 0 };
+
+    return {
+        view,
+        leaf,
+        addCommand: jest.fn(),
+        app: {
+            workspace: {
+                getActiveFileView: jest.fn(() => view),
+                getLeaf: jest.fn(() => leaf),
+            },
+            vault: {
+                getFileByPath: jest.fn((path: string) => (path === "deleted.md" ? null : { path })),
+            },
+        },
+        restoreScroll: {
+            applyState: jest.fn((_view: any, state: any) => {
+                view.line = state.scroll;
+            }),
+            openFileState: jest.fn(async (_leaf: any, file: any, state: any) => {
+                view.file = { path: file.path };
+                view.line = state.scroll;
+            }),
+        },
+    };
+};
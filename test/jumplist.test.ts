@@ -0,0 +1,156 @@
+import { JumpList } from "../src/components/jumplist";
+import { createNavigationPlugin, createState } from "./helpers/navigation";
+
+const createMockPlugin = () => {
+    const plugin = createNavigationPlugin();
+    const view = plugin.view;
+
+    return {
+        ...plugin,
+        restoreScroll: {
+            ...plugin.restoreScroll,
+            capturePosition: jest.fn(() => ({ state: createState(view.line), editorState: {} })),
+            completePosition: jest.fn((position: any) => ({ ...position.state, anchor: {} })),
+        },
+        events: {
+            onLinkOpen: jest.fn(),
+            onFileOpen: jest.fn(),
+            onFileRename: jest.fn(),
+            onSearchJump: jest.fn(),
+            onCursorUpdate: jest.fn(),
+            onScroll: jest.fn(),
+            getEditorFile: jest.fn(() => view.file),
+        },
+    };
+};
+
+describe("JumpList", () => {
+    let jumpList: JumpList;
+    let mockPlugin: ReturnType<typeof createMockPlugin>;
+
+    /** Jumps from the current line of the active file to the given position. */
+    const jump = (line: number, path = mockPlugin.view.file.path) => {
+        jumpList.recordJump();
+        mockPlugin.view.file = { path };
+        mockPlugin.view.line = line;
+        jumpList["updateCurrent"]();
+    };
+
+    beforeEach(() => {
+        mockPlugin = createMockPlugin();
+        jumpList = new JumpList(mockPlugin as any);
+
+        // The position is updated by the jump helper, once the view arrived.
+        (jumpList as any).updateCurrentDebounced = jest.fn();
+    });
+
+    describe("recordJump", () => {
+        test("ignores jumps to close positions", () => {
+            jump(5);
+            jump(100);
+            jump(105);
+
+            expect(jumpList["jumps"].map((j) => j.state.scroll)).toEqual([5]);
+        });
+
+        test("ignores positions close to the last jump", () => {
+            // A link, which opens another file in the same tab.
+            jumpList["updateCurrent"]();
+            jumpList.recordJump();
+            mockPlugin.view.file = { path: "b.md" };
+            jumpList["fileOpenHandler"]();
+            jumpList["updateCurrent"]();
+
+            expect(jumpList["jumps"].map((j) => j.path)).toEqual(["a.md"]);
+        });
+
+        test("creates anchors only for recorded jumps", () => {
+            jumpList["updateCurrent"]();
+            jumpList["updateCurrent"]();
+            expect(mockPlugin.restoreScroll.completePosition).not.toHaveBeenCalled();
+
+            jump(100);
+            expect(mockPlugin.restoreScroll.completePosition).toHaveBeenCalledTimes(1);
+            expect(jumpList["jumps"][0].state.anchor).toEqual({});
+            expect(jumpList["jumps"][0].editorState).toBeUndefined();
+        });
+    });
+
+    describe("back and forward", () => {
+        test("moves through jumps within a file", async () => {
+            jump(50);
+            jump(100);
+
+            await jumpList["back"]();
+            expect(mockPlugin.view.line).toBe(50);
+
+            await jumpList["back"]();
+            expect(mockPlugin.view.line).toBe(0);
+
+            await jumpList["back"]();
+            expect(mockPlugin.view.line).toBe(0);
+
+            await jumpList["forward"]();
+            await jumpList["forward"]();
+            expect(mockPlugin.view.line).toBe(100);
+
+            await jumpList["forward"]();
+            expect(mockPlugin.view.line).toBe(100);
+        });
+
+        test("opens other files", async () => {
+            jump(20, "b.md");
+
+            await jumpList["back"]();
+
+            expect(mockPlugin.restoreScroll.openFileState).toHaveBeenCalledTimes(1);
+            expect(mockPlugin.view.file.path).toBe("a.md");
+            expect(mockPlugin.view.line).toBe(0);
+        });
+
+        test("skips deleted files", async () => {
+            jump(0, "deleted.md");
+            jump(0, "b.md");
+            jump(0, "c.md");
+
+            await jumpList["back"]();
+            await jumpList["back"]();
+
+            expect(mockPlugin.view.file.path).toBe("a.md");
+            expect(jumpList["jumps"].map((j) => j.path)).toEqual(["a.md", "b.md", "c.md"]);
+        });
+
+        test("discards jumps ahead after a new jump", async () => {
+            jump(50);
+            jump(100);
+
+            await jumpList["back"]();
+            await jumpList["back"]();
+            jump(200);
+
+            expect(jumpList["jumps"].map((j) => j.state.scroll)).toEqual([0]);
+            await jumpList["forward"]();
+            expect(mockPlugin.view.line).toBe(200);
+        });
+    });
+
+    describe("searchJumpHandler", () => {
+        test("records the position before the search", () => {
+            jumpList["updateCurrent"]();
+            const editor = { getCursor: () => ({ line: 40, ch: 0 }) };
+
+            jumpList["searchJumpHandler"](editor as any);
+
+            expect(jumpList["jumps"].map((j) => j.state.scroll)).toEqual([0]);
+        });
+
+        test("ignores searches close to the cursor", () => {
+            jumpList["updateCurrent"]();
+            const editor = { getCursor: () => ({ line: 3, ch: 0 }) };
+
+            jumpList["searchJumpHandler"](editor as any);
+
+            expect(jumpList["jumps"]).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,286 @@
+import * as obsidian from "obsidian";
+
+import { Marks, isFileMark } from "../src/components/marks";
+import { createNavigationPlugin, createState } from "./helpers/navigation";
+
+const createMockPlugin = () => {
+    const plugin = createNavigationPlugin();
+    const view = plugin.view;
+    const files = new Map<string, string>();
+    const mtimes = new Map<string, number>();
+    let mtime = 0;
+
+    return {
+        ...plugin,
+        files,
+        settings: {
+            restoreScrollFileEnabled: true,
+            restoreScrollFilePath: ".obsidian/plugins/scrolling/scrolling-positions.json",
+        },
+        app: {
+            ...plugin.app,
+            vault: {
+                ...plugin.app.vault,
+                adapter: {
+                    exists: jest.fn(async (path: string) => files.has(path)),
+                    read: jest.fn(async (path: string) => files.get(path)),
+                    write: jest.fn(async (path: string, data: string) => {
+                        files.set(path, data);
+                        mtimes.set(path, ++mtime);
+                    }),
+                    remove: jest.fn(async (path: string) => {
+                        files.delete(path);
+                    }),
+                    rename: jest.fn(async (path: string, newPath: string) => {
+                        files.set(newPath, files.get(path)!);
+                        mtimes.set(newPath, mtimes.get(path)!);
+                        files.delete(path);
+                    }),
+                    stat: jest.fn(async (path: string) =>
+                        files.has(path) ? { mtime: mtimes.get(path) } : null,
+                    ),
+                },
+            },
+        },
+        restoreScroll: {
+            ...plugin.restoreScroll,
+            captureState: jest.fn(() => createState(view.line)),
+        },
+        jumpList: {
+            recordJump: jest.fn(),
+        },
+        events: {
+            onFileDelete: jest.fn(),
+            onFileRename: jest.fn(),
+            onFileModify: jest.fn(),
+        },
+    };
+};
+
+describe("Marks", () => {
+    let marks: Marks;
+    let mockPlugin: ReturnType<typeof createMockPlugin>;
+    let noticeSpy: jest.SpyInstance;
+
+    const MARKS_PATH = ".obsidian/plugins/scrolling/scrolling-marks.json";
+
+    /** Sets a mark at the given position. */
+    const setMark = (name: string, line: number, path = mockPlugin.view.file.path) => {
+        mockPlugin.view.file = { path };
+        mockPlugin.view.line = line;
+        marks["setMark"](name);
+    };
+
+    const getMark = (name: string, path?: string) =>
+        marks["getMarks"](path).find((mark) => mark.name === name);
+
+    beforeEach(() => {
+        mockPlugin = createMockPlugin();
+        marks = new Marks(mockPlugin as any);
+        noticeSpy = jest.spyOn(obsidian, "Notice").mockImplementation(() => ({}) as any);
+        jest.spyOn(console, "error").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test("isFileMark", () => {
+        expect(isFileMark("a")).toBe(true);
+        expect(isFileMark("todo")).toBe(true);
+        expect(isFileMark("A")).toBe(false);
+        expect(isFileMark("Todo")).toBe(false);
+        expect(isFileMark("1")).toBe(false);
+    });
+
+    describe("setMark", () => {
+        test("keeps lowercase marks per file", () => {
+            setMark("a", 10, "a.md");
+            setMark("a", 20, "b.md");
+
+            expect(getMark("a", "a.md")?.state.scroll).toBe(10);
+            expect(getMark("a", "b.md")?.state.scroll).toBe(20);
+            expect(getMark("a", "c.md")).toBeUndefined();
+        });
+
+        test("keeps uppercase marks across files", () => {
+            setMark("A", 10, "a.md");
+            setMark("A", 20, "b.md");
+
+            expect(marks["marks"]).toHaveLength(1);
+            expect(getMark("A", "c.md")).toMatchObject({ path: "b.md", state: { scroll: 20 } });
+        });
+
+        test("writes the marks file", async () => {
+            setMark("a", 10);
+            await marks["pendingWrite"];
+
+            const file = JSON.parse(mockPlugin.files.get(MARKS_PATH)!);
+            expect(file.version).toBe(1);
+            expect(file.marks).toEqual([{ name: "a", path: "a.md", state: createState(10) }]);
+        });
+    });
+
+    describe("jumpToMark", () => {
+        test("applies the position in the same file", async () => {
+            setMark("a", 10);
+            mockPlugin.view.line = 50;
+
+            await marks["jumpToMark"](getMark("a", "a.md")!);
+
+            expect(mockPlugin.jumpList.recordJump).toHaveBeenCalled();
+            expect(mockPlugin.restoreScroll.openFileState).not.toHaveBeenCalled();
+            expect(mockPlugin.view.line).toBe(10);
+        });
+
+        test("opens the file of a global mark", async () => {
+            setMark("A", 10, "b.md");
+            mockPlugin.view.file = { path: "a.md" };
+
+            await marks["jumpToMark"](getMark("A")!);
+
+            expect(mockPlugin.view.file.path).toBe("b.md");
+            expect(mockPlugin.view.line).toBe(10);
+        });
+
+        test("does not record jumps to marks of missing files", async () => {
+            setMark("A", 10, "deleted.md");
+            mockPlugin.view.file = { path: "a.md" };
+            noticeSpy.mockClear();
+
+            await marks["jumpToMark"](getMark("A")!);
+
+            expect(mockPlugin.restoreScroll.openFileState).not.toHaveBeenCalled();
+            expect(mockPlugin.jumpList.recordJump).not.toHaveBeenCalled();
+            expect(noticeSpy).toHaveBeenCalledTimes(1);
+        });
+
+        test("shows a notice, if the file fails to open", async () => {
+            setMark("A", 10, "b.md");
+            mockPlugin.view.file = { path: "a.md" };
+            mockPlugin.restoreScroll.openFileState.mockRejectedValueOnce(new Error("failed"));
+            noticeSpy.mockClear();
+
+            await expect(marks["jumpToMark"](getMark("A")!)).resolves.toBeUndefined();
+
+            expect(noticeSpy).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("vault events", () => {
+        test("moves marks of renamed files", async () => {
+            setMark("a", 10, "a.md");
+            setMark("B", 20, "a.md");
+
+            marks["fileRenameHandler"]({ path: "c.md" } as any, "a.md");
+            await marks["pendingWrite"];
+
+            expect(getMark("a", "c.md")?.path).toBe("c.md");
+            expect(getMark("B")?.path).toBe("c.md");
+            expect(mockPlugin.files.get(MARKS_PATH)).toContain("c.md");
+        });
+
+        test("removes marks of deleted files", () => {
+            setMark("a", 10, "a.md");
+            setMark("B", 20, "a.md");
+            setMark("C", 30, "b.md");
+
+            marks["fileDeleteHandler"]({ path: "a.md" } as any);
+
+            expect(marks["marks"].map((mark) => mark.name)).toEqual(["C"]);
+        });
+    });
+
+    describe("marks file", () => {
+        test("is stored next to the scroll positions file", () => {
+            expect(marks["getMarksFilePath"]("positions.json")).toBe("scrolling-marks.json");
+            expect(marks["getMarksFilePath"]("a/b/positions.json")).toBe(
+                "a/b/scrolling-marks.json",
+            );
+        });
+
+        test("loads written marks", async () => {
+            setMark("a", 10);
+            setMark("B", 20, "b.md");
+            await marks["pendingWrite"];
+
+            const loaded = new Marks(mockPlugin as any);
+            await loaded.loadMarksFile();
+
+            expect(loaded["marks"]).toEqual(marks["marks"]);
+        });
+
+        test("moves with the scroll positions file", async () => {
+            setMark("a", 10);
+
+            mockPlugin.settings.restoreScrollFilePath = "other/positions.json";
+            await marks.moveMarksFile();
+
+            expect(mockPlugin.files.has(MARKS_PATH)).toBe(false);
+            expect(mockPlugin.files.has("other/scrolling-marks.json")).toBe(true);
+        });
+
+        test("keeps its path, if the scroll positions file falls back to the default", async () => {
+            mockPlugin.settings.restoreScrollFilePath = "default/positions.json";
+            setMark("a", 10);
+            await marks["pendingWrite"];
+
+            expect(mockPlugin.files.has(MARKS_PATH)).toBe(true);
+            expect(mockPlugin.files.has("default/scrolling-marks.json")).toBe(false);
+        });
+
+        test("is not written, while positions are not stored in a file", async () => {
+            mockPlugin.settings.restoreScrollFileEnabled = false;
+            setMark("a", 10);
+            await marks["pendingWrite"];
+
+            marks["fileModifyHandler"]({ path: MARKS_PATH } as any);
+            await marks["pendingWrite"];
+
+            expect(mockPlugin.app.vault.adapter.write).not.toHaveBeenCalled();
+            expect(getMark("a", "a.md")?.state.scroll).toBe(10);
+        });
+
+        test("replaces the file one write at a time", async () => {
+            setMark("a", 10);
+            setMark("B", 20);
+            await marks["pendingWrite"];
+
+            const file = JSON.parse(mockPlugin.files.get(MARKS_PATH)!);
+            expect(file.marks.map((mark: any) => mark.name)).toEqual(["a", "B"]);
+            expect(mockPlugin.files.has(MARKS_PATH + ".tmp")).toBe(false);
+        });
+
+        test("recovers the temporary file of an interrupted write", async () => {
+            setMark("a", 10);
+            await marks["pendingWrite"];
+            mockPlugin.files.set(MARKS_PATH + ".tmp", mockPlugin.files.get(MARKS_PATH)!);
+            mockPlugin.files.delete(MARKS_PATH);
+
+            const loaded = new Marks(mockPlugin as any);
+            await loaded.loadMarksFile();
+
+            expect(loaded["marks"]).toEqual(marks["marks"]);
+        });
+
+        test("reloads the marks file after it was synced", async () => {
+            setMark("a", 10);
+            await marks["pendingWrite"];
+
+            // Own writes are not read again.
+            marks["fileModifyHandler"]({ path: MARKS_PATH } as any);
+            await marks["pendingWrite"];
+            expect(mockPlugin.app.vault.adapter.read).not.toHaveBeenCalled();
+
+            const synced = {
+                version: 1,
+                marks: [{ name: "B", path: "b.md", state: createState(5) }],
+            };
+            await mockPlugin.app.vault.adapter.write(MARKS_PATH, JSON.stringify(synced));
+            marks["fileModifyHandler"]({ path: MARKS_PATH } as any);
+            await marks["pendingWrite"];
+
+            expect(marks["marks"]).toEqual(synced.marks);
+        });
+    });
+});
@@ -0,0 +1,365 @@
+import * as obsidian from "obsidian";
+
+import { RestoreScroll, parseStatesFile } from "../src/components/restorescroll";
+
+/**
+ * In-memory adapter, which fails like the file system adapter on missing files.
+ */
+const createMockAdapter = (files: Record<string, string> = {}) => {
+    const data = new Map(Object.entries(files));
+    const mtimes = new Map<string, number>();
+    let time = 0;
+    return {
+        data,
+        /** Simulates a write of another device. */
+        sync: (path: string, content: string) => {
+            data.set(path, content);
+            mtimes.set(path, ++time);
+        },
+        stat: jest.fn(async (path: string) =>
+            data.has(path) ? { type: "file", mtime: mtimes.get(path) ?? 0 } : null,
+        ),
+        exists: jest.fn(
+            async (path: string) => data.has(path) || path === "plugin" || path === "custom",
+        ),
+        read: jest.fn(async (path: string) => {
+            if (!data.has(path)) throw new Error(`File not found: ${path}`);
+            return data.get(path);
+        }),
+        write: jest.fn(async (path: string, content: string) => {
+            data.set(path, content);
+            mtimes.set(path, ++time);
+        }),
+        remove: jest.fn(async (path: string) => {
+            data.delete(path);
+        }),
+        rename: jest.fn(async (from: string, to: string) => {
+            if (data.has(to)) throw new Error("Destination file already exists!");
+            data.set(to, data.get(from));
+            mtimes.set(to, mtimes.get(from));
+            data.delete(from);
+        }),
+    };
+};
+
+const createMockPlugin = (adapter: any, settings: any = {}) => ({
+    settings: {
+        restoreScrollFileEnabled: true,
+        restoreScrollFilePath: "plugin/scrolling-positions.json",
+        restoreScrollPerDevice: false,
+        restoreScrollLimit: -1,
+        ...settings,
+    },
+    manifest: { dir: "plugin" },
+    app: {
+        workspace: { layoutReady: true },
+        vault: { adapter },
+        loadLocalStorage: jest.fn(() => null),
+        saveLocalStorage: jest.fn(),
+    },
+    events: {
+        onScroll: jest.fn(),
+        onMouseUp: jest.fn(),
+        onFileOpen: jest.fn(),
+        onFileDelete: jest.fn(),
+        onFileRename: jest.fn(),
+        onFileModify: jest.fn(),
+        onLayoutReady: jest.fn(),
+        getEditorFile: jest.fn(() => null),
+    },
+});
+
+const PATH = "plugin/scrolling-positions.json";
+const STATES = { "note.md": { timestamp: 1, scroll: 10 } };
+const FILE = JSON.stringify({ version: 2, states: STATES, deleted: {} });
+
+describe("parseStatesFile", () => {
+    test("migrates files without version", () => {
+        expect(parseStatesFile(JSON.stringify(STATES))).toEqual({
+            version: 2,
+            states: STATES,
+            deleted: {},
+        });
+    });
+
+    test("migrates versioned files", () => {
+        expect(parseStatesFile(JSON.stringify({ version: 1, states: STATES }))).toEqual({
+            version: 2,
+            states: STATES,
+            deleted: {},
+        });
+    });
+
+    test("reads empty content as a file without states", () => {
+        expect(parseStatesFile("")).toEqual({ version: 2, states: {}, deleted: {} });
+        expect(parseStatesFile(" \n")).toEqual({ version: 2, states: {}, deleted: {} });
+    });
+
+    test("throws on corrupted content", () => {
+        expect(() => parseStatesFile('{"note.md": {"times')).toThrow();
+        expect(() => parseStatesFile("[]")).toThrow();
+        expect(() => parseStatesFile('{"version": 2, "states": {}}')).toThrow();
+    });
+});
+
+describe("RestoreScroll", () => {
+    let noticeSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+        noticeSpy = jest.spyOn(obsidian, "Notice").mockImplementation(() => ({}) as any);
+        jest.spyOn(console, "error").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe("loadStatesFile", () => {
+        test("loads the states file", async () => {
+            const adapter = createMockAdapter({ [PATH]: JSON.stringify(STATES) });
+            const restoreScroll = new RestoreScroll(createMockPlugin(adapter) as any);
+
+            await restoreScroll.loadStatesFile();
+
+            expect(restoreScroll["ephemeralStates"]).toEqual(STATES);
+            expect(noticeSpy).not.toHaveBeenCalled();
+        });
+
+        test("restores the backup with a notice on corruption", async () => {
+            const adapter = createMockAdapter({
+                [PATH]: '{"note.md": {"times',
+                [PATH + ".bak"]: FILE,
+            });
+            const restoreScroll = new RestoreScroll(createMockPlugin(adapter) as any);
+
+            await restoreScroll.loadStatesFile();
+
+            expect(restoreScroll["ephemeralStates"]).toEqual(STATES);
+            expect(noticeSpy).toHaveBeenCalledTimes(1);
+        });
+
+        test("loads the temporary file of an interrupted write silently", async () => {
+            const adapter = createMockAdapter({
+                [PATH + ".tmp"]: FILE,
+            });
+            const restoreScroll = new RestoreScroll(createMockPlugin(adapter) as any);
+
+            await restoreScroll.loadStatesFile();
+
+            expect(restoreScroll["ephemeralStates"]).toEqual(STATES);
+            expect(noticeSpy).not.toHaveBeenCalled();
+        });
+
+        test("recovers the temporary file of a custom path", async () => {
+            const customPath = "custom/positions.json";
+            const adapter = createMockAdapter({ [PATH + ".tmp"]: FILE });
+            const plugin = createMockPlugin(adapter, { restoreScrollFilePath: customPath });
+            const restoreScroll = new RestoreScroll(plugin as any);
+
+            await restoreScroll.loadStatesFile();
+
+            expect(restoreScroll["ephemeralStates"]).toEqual(STATES);
+            expect(plugin.settings.restoreScrollFilePath).toBe(customPath);
+        });
+
+        test("loads an empty file without a notice", async () => {
+            const adapter = createMockAdapter({ [PATH]: "" });
+            const restoreScroll = new RestoreScroll(createMockPlugin(adapter) as any);
+
+            await restoreScroll.loadStatesFile();
+
+            expect(restoreScroll["ephemeralStates"]).toEqual({});
+            expect(noticeSpy).not.toHaveBeenCalled();
+        });
+
+        test("starts empty with a notice without valid backup", async () => {
+            const adapter = createMockAdapter({ [PATH]: "{" });
+            const restoreScroll = new RestoreScroll(createMockPlugin(adapter) as any);
+
+            await restoreScroll.loadStatesFile();
+
+            expect(restoreScroll["ephemeralStates"]).toEqual({});
+            expect(noticeSpy).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("followAnchor", () => {
+        const lines = ["Added line", "", "# Heading", "Some paragraph text"];
+        const editor = {
+            getLine: (line: number) => lines[line],
+            lineCount: () => lines.length,
+        };
+
+        test("moves cursor and scroll position with the anchor", () => {
+            const restoreScroll = new RestoreScroll(createMockPlugin(createMockAdapter()) as any);
+            const anchor = { line: 1, text: "Some paragraph text" };
+            const cursor = { from: { line: 1, ch: 4 }, to: { line: 1, ch: 6 } };
+
+            expect(restoreScroll["followAnchor"](editor as any, anchor, cursor, 0.5)).toEqual({
+                cursor: { from: { line: 3, ch: 4 }, to: { line: 3, ch: 6 } },
+                scroll: 2.5,
+            });
+        });
+
+        test("keeps positions if the anchor is not found", () => {
+            const restoreScroll = new RestoreScroll(createMockPlugin(createMockAdapter()) as any);
+            const anchor = { line: 1, text: "Removed paragraph" };
+
+            expect(restoreScroll["followAnchor"](editor as any, anchor, undefined, 1)).toEqual({
+                cursor: undefined,
+                scroll: 1,
+            });
+        });
+    });
+
+    describe("writeStatesFile", () => {
+        test("replaces the file with a versioned file", async () => {
+            const adapter = createMockAdapter({ [PATH]: JSON.stringify({}) });
+            const restoreScroll = new RestoreScroll(createMockPlugin(adapter) as any);
+            restoreScroll["ephemeralStates"] = STATES;
+
+            await restoreScroll["writeStatesFile"]();
+
+            expect(adapter.data.get(PATH)).toBe(FILE);
+            expect(adapter.data.has(PATH + ".tmp")).toBe(false);
+        });
+
+        test("keeps the intact file as backup", async () => {
+            const adapter = createMockAdapter({ [PATH]: JSON.stringify(STATES) });
+            const restoreScroll = new RestoreScroll(createMockPlugin(adapter) as any);
+            await restoreScroll.loadStatesFile();
+
+            restoreScroll["ephemeralStates"] = {};
+            await restoreScroll["writeStatesFile"]();
+            await restoreScroll["writeStatesFile"]();
+
+            expect(parseStatesFile(adapter.data.get(PATH + ".bak")).states).toEqual(STATES);
+            expect(parseStatesFile(adapter.data.get(PATH)).states).toEqual({});
+        });
+
+        test("does not replace the backup with a corrupted file", async () => {
+            const adapter = createMockAdapter({ [PATH]: "{", [PATH + ".bak"]: FILE });
+            const restoreScroll = new RestoreScroll(createMockPlugin(adapter) as any);
+            await restoreScroll.loadStatesFile();
+
+            await restoreScroll["writeStatesFile"]();
+
+            expect(adapter.data.get(PATH + ".bak")).toBe(FILE);
+            expect(parseStatesFile(adapter.data.get(PATH)).states).toEqual(STATES);
+        });
+
+        test("keeps temporary and backup files of a custom path in the plugin directory", async () => {
+            const customPath = "custom/positions.json";
+            const adapter = createMockAdapter({ [customPath]: FILE });
+            const plugin = createMockPlugin(adapter, { restoreScrollFilePath: customPath });
+            const restoreScroll = new RestoreScroll(plugin as any);
+            await restoreScroll.loadStatesFile();
+
+            await restoreScroll["writeStatesFile"]();
+
+            expect(Array.from(adapter.data.keys()).sort()).toEqual([customPath, PATH + ".bak"]);
+        });
+
+        test("does not overlap writes", async () => {
+            const adapter = createMockAdapter();
+            const restoreScroll = new RestoreScroll(createMockPlugin(adapter) as any);
+
+            await Promise.all([
+                restoreScroll["writeStatesFile"](),
+                restoreScroll["writeStatesFile"](),
+            ]);
+
+            expect(adapter.data.has(PATH)).toBe(true);
+            expect(noticeSpy).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("mergeStatesFile", () => {
+        let adapter: ReturnType<typeof createMockAdapter>;
+        let restoreScroll: RestoreScroll;
+
+        beforeEach(async () => {
+            adapter = createMockAdapter({ [PATH]: FILE });
+            restoreScroll = new RestoreScroll(createMockPlugin(adapter) as any);
+            await restoreScroll.loadStatesFile();
+        });
+
+        test("keeps the newest state of each file", async () => {
+            restoreScroll["ephemeralStates"]["own.md"] = { timestamp: 5, scroll: 1 };
+            adapter.sync(
+                PATH,
+                JSON.stringify({
+                    version: 2,
+                    states: {
+                        "note.md": { timestamp: 3, scroll: 20 },
+                        "own.md": { timestamp: 4, scroll: 2 },
+                    },
+                    deleted: {},
+                }),
+            );
+
+            await restoreScroll["writeStatesFile"]();
+
+            expect(parseStatesFile(adapter.data.get(PATH)).states).toEqual({
+                "note.md": { timestamp: 3, scroll: 20 },
+                "own.md": { timestamp: 5, scroll: 1 },
+            });
+        });
+
+        test("does not merge deleted states back in", async () => {
+            restoreScroll["fileDeleteHandler"]({ path: "note.md" } as any);
+            adapter.sync(PATH, FILE);
+
+            await restoreScroll["writeStatesFile"]();
+
+            const file = parseStatesFile(adapter.data.get(PATH));
+            expect(file.states).toEqual({});
+            expect(file.deleted["note.md"]).toBeGreaterThan(1);
+        });
+
+        test("applies deletions of other devices", async () => {
+            adapter.sync(
+                PATH,
+                JSON.stringify({ version: 2, states: {}, deleted: { "note.md": 2 } }),
+            );
+
+            await restoreScroll["writeStatesFile"]();
+
+            expect(restoreScroll["ephemeralStates"]).toEqual({});
+        });
+
+        test("ignores unchanged files", async () => {
+            adapter.read.mockClear();
+
+            await restoreScroll["mergeStatesFile"]();
+
+            expect(adapter.read).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("fileRenameHandler", () => {
+        test("moves the states of all splits and devices", () => {
+            const restoreScroll = new RestoreScroll(createMockPlugin(createMockAdapter()) as any);
+            restoreScroll["ephemeralStates"] = {
+                "a.md": { timestamp: 1 },
+                "a.md#1": { timestamp: 2 },
+                "a.md|phone": { timestamp: 3 },
+                "ab.md": { timestamp: 4 },
+            };
+
+            restoreScroll["fileRenameHandler"]({ path: "b.md" } as any, "a.md");
+
+            expect(Object.keys(restoreScroll["ephemeralStates"]).sort()).toEqual([
+                "ab.md",
+                "b.md",
+                "b.md#1",
+                "b.md|phone",
+            ]);
+            expect(Object.keys(restoreScroll["deletedStates"]).sort()).toEqual([
+                "a.md",
+                "a.md#1",
+                "a.md|phone",
+            ]);
+        });
+    });
+});
@@ -0,0 +1,78 @@
+import { ScrollPastEnd, calculatePadding } from "../src/components/scrollpastend";
+
+const createMockPlugin = (settings: any = {}) => ({
+    settings: {
+        scrollPastEndEnabled: true,
+        scrollPastEndPercentage: 50,
+        ...settings,
+    },
+    register: jest.fn(),
+    registerEditorExtension: jest.fn(),
+    app: {
+        workspace: {
+            updateOptions: jest.fn(),
+        },
+    },
+});
+
+describe("ScrollPastEnd", () => {
+    let scrollPastEnd: ScrollPastEnd;
+    let mockPlugin: any;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockPlugin = createMockPlugin();
+        scrollPastEnd = new ScrollPastEnd(mockPlugin as any);
+    });
+
+    afterEach(() => {
+        document.body.style.removeProperty("--scrolling-scroll-past-end");
+        document.body.classList.remove("scrolling-scroll-past-end");
+    });
+
+    describe("calculatePadding", () => {
+        test("returns a fraction of the scroller height", () => {
+            expect(calculatePadding(800, 0.5)).toBe(400);
+            expect(calculatePadding(800, 1)).toBe(800);
+        });
+
+        test("rounds down to whole pixels", () => {
+            expect(calculatePadding(333, 0.5)).toBe(166);
+        });
+
+        test("returns 0 without percentage or height", () => {
+            expect(calculatePadding(800, 0)).toBe(0);
+            expect(calculatePadding(0, 0.5)).toBe(0);
+        });
+    });
+
+    describe("updateStyle", () => {
+        test("sets the padding for reading mode", () => {
+            expect(document.body.classList.contains("scrolling-scroll-past-end")).toBe(true);
+            expect(document.body.style.getPropertyValue("--scrolling-scroll-past-end")).toBe(
+                "50vh",
+            );
+        });
+
+        test("registers the editor extension once", () => {
+            const extensions = mockPlugin.registerEditorExtension.mock.calls[0][0];
+            expect(extensions).toHaveLength(1);
+
+            mockPlugin.settings.scrollPastEndPercentage = 25;
+            scrollPastEnd.updateStyle();
+
+            expect(extensions).toHaveLength(1);
+            expect(mockPlugin.registerEditorExtension).toHaveBeenCalledTimes(1);
+            expect(mockPlugin.app.workspace.updateOptions).toHaveBeenCalledTimes(2);
+        });
+
+        test("removes the padding if disabled", () => {
+            mockPlugin.settings.scrollPastEndEnabled = false;
+            scrollPastEnd.updateStyle();
+
+            expect(mockPlugin.registerEditorExtension.mock.calls[0][0]).toHaveLength(0);
+            expect(document.body.classList.contains("scrolling-scroll-past-end")).toBe(false);
+            expect(document.body.style.getPropertyValue("--scrolling-scroll-past-end")).toBe("");
+        });
+    });
+});
@@ -0,0 +1,132 @@
+import { Table } from "../src/components/table";
+
+const createMockPlugin = (settings: any = {}) => ({
+    settings: {
+        tableScrollEnabled: true,
+        ...settings,
+    },
+    register: jest.fn(),
+    events: {
+        onTouchMove: jest.fn(),
+        onLeafChange: jest.fn(),
+        onWheelCancelling: jest.fn(),
+        onCursorUpdate: jest.fn(),
+        onGeometryChange: jest.fn(),
+        skipNextViewUpdate: jest.fn(),
+    },
+});
+
+describe("Table", () => {
+    let table: Table;
+    let mockPlugin: any;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockPlugin = createMockPlugin();
+        table = new Table(mockPlugin as any);
+    });
+
+    describe("collectRows", () => {
+        test("finds all adjacent table rows", () => {
+            const parent = document.createElement("div");
+            const rows = [0, 1, 2, 3].map(() => {
+                const el = document.createElement("div");
+                el.classList.add("cm-line", "HyperMD-table-row");
+                parent.appendChild(el);
+                return el;
+            });
+
+            const other = document.createElement("div");
+            other.classList.add("cm-line");
+            parent.appendChild(other);
+
+            table["collectRows"](rows[1]);
+
+            const result = table["tableRows"];
+            expect(result.length).toBe(4);
+            expect(result).not.toContain(other);
+        });
+
+        test("uses rendered tables as a whole", () => {
+            const wrapper = document.createElement("div");
+            wrapper.classList.add("table-wrapper");
+
+            table["collectRows"](wrapper);
+
+            expect(table["tableRows"]).toEqual([wrapper]);
+        });
+    });
+
+    describe("getTableElement", () => {
+        test("finds the source line of a table", () => {
+            const view = document.createElement("div");
+            view.classList.add("markdown-source-view");
+            const line = document.createElement("div");
+            line.classList.add("cm-line", "HyperMD-table-row");
+            const cell = document.createElement("span");
+            line.appendChild(cell);
+            view.appendChild(line);
+
+            expect(table["getTableElement"](cell)).toBe(line);
+        });
+
+        test("finds the scroll container of a rendered table", () => {
+            const view = document.createElement("div");
+            view.classList.add("markdown-source-view");
+            view.innerHTML =
+                '<div class="cm-table-widget"><div class="table-wrapper"><table><td></td></table></div></div>';
+
+            const cell = view.querySelector("td");
+            const wrapper = view.querySelector(".table-wrapper");
+            expect(table["getTableElement"](cell)).toBe(wrapper);
+        });
+
+        test("returns null outside of tables", () => {
+            const el = document.createElement("div");
+            expect(table["getTableElement"](el)).toBeNull();
+            expect(table["getTableElement"](null)).toBeNull();
+        });
+    });
+
+    describe("calculateCursorScroll", () => {
+        beforeEach(() => {
+            table["currentScrollWidth"] = 1000;
+        });
+
+        test("keeps position when cursor is visible", () => {
+            table["currentScrollLeft"] = 100;
+            expect(table["calculateCursorScroll"](300, 500, 20)).toBe(100);
+        });
+
+        test("scrolls right when cursor is beyond the right edge", () => {
+            table["currentScrollLeft"] = 0;
+            expect(table["calculateCursorScroll"](600, 500, 20)).toBe(120);
+        });
+
+        test("scrolls left when cursor is beyond the left edge", () => {
+            table["currentScrollLeft"] = 300;
+            expect(table["calculateCursorScroll"](200, 500, 20)).toBe(180);
+        });
+
+        test("does not exceed the scrollable width", () => {
+            table["currentScrollLeft"] = 0;
+            expect(table["calculateCursorScroll"](2000, 500, 20)).toBe(1000);
+        });
+    });
+
+    describe("updateStyle", () => {
+        test("adds CSS class when enabled", () => {
+            mockPlugin.settings.tableScrollEnabled = true;
+            table.updateStyle();
+
+            expect(document.body.classList.contains("scrolling-horizontal-tables")).toBe(true);
+        });
+
+        test("removes CSS class when disabled", () => {
+            mockPlugin.settings.tableScrollEnabled = false;
+            table.updateStyle();
+
+            expect(document.body.classList.contains("scrolling-horizontal-tables")).toBe(false);
+        });
+    });
+});
@@ -1,4 +1,4 @@
-import { clamp } from "../src/core/util";
+import { clamp, normalizeWheelDelta } from "../src/core/util";
 
 describe("clamp", () => {
     test("does not exceed maximum", () => {
@@ -11,3 +11,67 @@ describe("clamp", () => {
         expect(result).toBe(0)
     });
 });
+
+describe("normalizeWheelDelta", () => {
+    test("keeps delta values with DOM_DELTA_PIXEL", () => {
+        const event = new WheelEvent("wheel", {
+            deltaX: 3,
+            deltaY: 5,
+            deltaMode: WheelEvent.DOM_DELTA_PIXEL,
+        });
+
+        const result = normalizeWheelDelta(event);
+        expect(result.deltaX).toBe(3);
+        expect(result.deltaY).toBe(5);
+    });
+
+    test("scales DOM_DELTA_LINE by 16", () => {
+        const event = new WheelEvent("wheel", {
+            deltaX: 2,
+            deltaY: 3,
+            deltaMode: WheelEvent.DOM_DELTA_LINE,
+        });
+
+        const result = normalizeWheelDelta(event);
+        expect(result.deltaX).toBe(32);
+        expect(result.deltaY).toBe(48);
+    });
+
+    test("scales DOM_DELTA_PAGE by window height", () => {
+        const event = new WheelEvent("wheel", {
+            deltaX: 1,
+            deltaY: 1,
+            deltaMode: WheelEvent.DOM_DELTA_PAGE,
+        });
+
+        const result = normalizeWheelDelta(event);
+        expect(result.deltaX).toBe(window.innerHeight);
+        expect(result.deltaY).toBe(window.innerHeight);
+    });
+
+    test("swaps axes when shift key is held and deltaY is dominant", () => {
+        const event = new WheelEvent("wheel", {
+            deltaX: 1,
+            deltaY: 10,
+            deltaMode: WheelEvent.DOM_DELTA_PIXEL,
+            shiftKey: true,
+        });
+
+        const result = normalizeWheelDelta(event);
+        expect(result.deltaX).toBe(10);
+        expect(result.deltaY).toBe(0);
+    });
+
+    test("does not swap axes when shift key is held but deltaX is dominant", () => {
+        const event = new WheelEvent("wheel", {
+            deltaX: 10,
+            deltaY: 1,
+            deltaMode: WheelEvent.DOM_DELTA_PIXEL,
+            shiftKey: true,
+        });
+
+        const result = normalizeWheelDelta(event);
+        expect(result.deltaX).toBe(10);
+        expect(result.deltaY).toBe(1);
+    });
+});